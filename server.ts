@@ -3,17 +3,152 @@ import "dotenv/config";
 
 import { serve } from "@hono/node-server";
 import { Hono, Context } from "hono";
-import { TranscriptionService } from "./services/transcription-service.js";
-import { unlink } from "fs/promises";
-import { join } from "path";
-import { tmpdir } from "os";
+import { routePath } from "hono/route";
+import { streamSSE } from "hono/streaming";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+  TranscriptionProgress,
+  TranscriptionResult,
+  TranscriptionService,
+} from "./services/transcription-service.js";
+import {
+  ResultCache,
+  hashFile,
+  loadResultCacheOptions,
+} from "./services/result-cache.js";
+import type {
+  KnownSpeaker,
+  ProviderChatResult,
+} from "./services/providers/index.js";
+import { JobStore } from "./services/job-store.js";
+import {
+  HealthService,
+  loadHealthCheckOptions,
+  readAppVersion,
+  summarizeReadiness,
+} from "./services/health-service.js";
+import {
+  ApiClient,
+  ApiKeyStore,
+  ClientLimits,
+} from "./services/api-key-store.js";
+import { ClientLimiter } from "./services/client-limiter.js";
+import { InFlightTracker } from "./services/in-flight-tracker.js";
+import { TempSweeper } from "./services/temp-sweeper.js";
+import { JobRunner } from "./services/job-runner.js";
+import {
+  UsageRecord,
+  UsageStore,
+  summarizeUsage,
+  usageToCsv,
+} from "./services/usage-store.js";
+import { EnrolledSpeaker, SpeakerStore } from "./services/speaker-store.js";
+import { WebhookService } from "./services/webhook-service.js";
+import { createHash, timingSafeEqual } from "crypto";
+import { stat, unlink } from "fs/promises";
+import type { Server, ServerResponse } from "http";
 import logger, { createChildLogger } from "./utils/logger.js";
+import {
+  AudioUpload,
+  loadUploadOptions,
+  receiveAudioUpload,
+  receiveFileUploads,
+} from "./utils/upload.js";
+import {
+  RemoteAudioError,
+  downloadAudio,
+  loadRemoteAudioOptions,
+} from "./utils/remote-audio.js";
+import {
+  ApiError,
+  AuthenticationError,
+  ClientRateLimitError,
+  ForbiddenError,
+  PayloadTooLargeError,
+  QuotaExceededError,
+  ShuttingDownError,
+  UnsupportedMediaError,
+  ValidationError,
+} from "./utils/errors.js";
+import { isSupportedLanguage } from "./utils/languages.js";
+import { audioCost, loadPriceTable, tokenCost } from "./utils/pricing.js";
+import { AppConfig, loadConfig } from "./utils/config.js";
+import { AudioProbe, isAllowedAudioCodec } from "./utils/media.js";
+import {
+  audioDurationSeconds,
+  httpRequestsInFlight,
+  httpRequestsTotal,
+  metricsRegistry,
+  processingSeconds,
+  setTempDir,
+} from "./utils/metrics.js";
+import {
+  TRANSLITERATION_SCRIPTS,
+  TransliterationScript,
+  isTransliterationScript,
+  transliterate,
+} from "./utils/transliteration.js";
+import {
+  SubtitleFormat,
+  SUBTITLE_CONTENT_TYPES,
+  renderSubtitles,
+} from "./utils/subtitles.js";
+import {
+  buildUtterances,
+  computeSpeakerStats,
+  listSpeakers,
+} from "./utils/diarization.js";
+
+// Settings from the environment and CONFIG_PATH, validated before anything
+// else starts
+let config: AppConfig;
+try {
+  config = loadConfig();
+} catch (error) {
+  logger.error(
+    { error: error instanceof Error ? error.message : "Unknown error" },
+    "Failed to load configuration"
+  );
+  process.exit(1);
+}
+
+// Client keys are created through the admin routes, so requiring them
+// without an admin key would refuse every request
+if (config.auth.requireApiKey && !config.auth.adminApiKey) {
+  logger.error(
+    "ADMIN_API_KEY is required while REQUIRE_API_KEY is true. Set it, or set REQUIRE_API_KEY=false to turn authentication off."
+  );
+  process.exit(1);
+}
+
+// This instance's working directory for temporary audio. Files that crashed
+// or killed processes left behind are swept at startup and periodically.
+let tempSweeper: TempSweeper;
+try {
+  tempSweeper = new TempSweeper(config.tempDir, {
+    maxAgeMs: config.tempFiles.maxAgeMinutes * 60 * 1000,
+    intervalMs: config.tempFiles.sweepIntervalMinutes * 60 * 1000,
+  });
+} catch (error) {
+  logger.error(
+    { error: error instanceof Error ? error.message : "Unknown error" },
+    "Failed to create working directory"
+  );
+  process.exit(1);
+}
+void tempSweeper.start();
+setTempDir(tempSweeper.workDir);
+
+// Requests and background transcriptions that shutdown waits for, and the
+// signal that kills their ffmpeg processes once the deadline has passed
+const inFlight = new InFlightTracker();
+const abandonWork = new AbortController();
 
 // Initialize service
 let transcriptionService: TranscriptionService;
 
 try {
-  transcriptionService = new TranscriptionService();
+  transcriptionService = new TranscriptionService(config);
   // Initialize at startup
   transcriptionService.initialize().catch((error) => {
     logger.error(
@@ -27,354 +162,1961 @@ try {
     { error: error instanceof Error ? error.message : "Unknown error" },
     "Failed to create TranscriptionService"
   );
-  logger.error("Please ensure OPENAI_API_KEY environment variable is set");
+  logger.error(
+    "Please ensure OPENAI_API_KEY (or LOCAL_WHISPER_URL with TRANSCRIPTION_PROVIDER=local) is set"
+  );
+  process.exit(1);
+}
+
+// Initialize job store (finished jobs survive restarts until they expire)
+const jobStore = new JobStore(
+  config.storage.jobsPath,
+  config.jobs.retentionHours * 60 * 60 * 1000
+);
+jobStore.load().catch((error) => {
+  logger.error(
+    { error: error.message, stack: error.stack },
+    "Failed to load job store"
+  );
+  process.exit(1);
+});
+
+// Submitted jobs wait here for a free processing slot
+const jobRunner = new JobRunner(config.jobs.maxConcurrent);
+
+// Provider transcripts of previously seen audio
+const resultCache = new ResultCache(loadResultCacheOptions(config));
+void resultCache.load();
+
+// Enrolled speakers for named diarization
+const speakerStore = new SpeakerStore(config.storage.speakersPath);
+speakerStore.load().catch((error) => {
+  logger.error(
+    { error: error.message, stack: error.stack },
+    "Failed to load speaker store"
+  );
+  process.exit(1);
+});
+
+// Client API keys, sent as Authorization: Bearer <key>
+const apiKeyStore = new ApiKeyStore(config.storage.apiKeysPath);
+apiKeyStore.load().catch((error) => {
+  logger.error(
+    { error: error.message, stack: error.stack },
+    "Failed to load API key store"
+  );
+  process.exit(1);
+});
+const clientLimiter = new ClientLimiter();
+const requireApiKey = config.auth.requireApiKey;
+if (!requireApiKey) {
+  logger.warn("API keys are not required, requests are not authenticated");
+}
+
+// Limits for new keys when the admin doesn't set them
+const DEFAULT_CLIENT_LIMITS: ClientLimits = {
+  requestsPerMinute: 60,
+  maxConcurrent: 4,
+  monthlyAudioMinutes: 0,
+};
+
+// Metered usage of every transcription, priced with the price table
+const usageStore = new UsageStore(config.storage.usageLogPath);
+let priceTable: ReturnType<typeof loadPriceTable>;
+try {
+  priceTable = loadPriceTable(config.priceTablePath);
+} catch (error) {
+  logger.error(
+    { error: error instanceof Error ? error.message : "Unknown error" },
+    "Failed to load price table"
+  );
   process.exit(1);
 }
 
-const app = new Hono();
+// Liveness and readiness checks
+const healthService = new HealthService(
+  transcriptionService,
+  loadHealthCheckOptions(config, tempSweeper.workDir)
+);
+const appVersion = readAppVersion();
+
+// Routes that don't need an API key
+const PUBLIC_PATHS = ["/", "/healthz", "/readyz", "/metrics"];
+
+// Known speakers the diarization model accepts per request, and reference
+// clips accepted per enrollment
+const MAX_REQUEST_SPEAKERS = 4;
+const MAX_ENROLLMENT_CLIPS = 5;
+
+// Webhook callbacks (signed with WEBHOOK_SECRET)
+const webhookService = new WebhookService({
+  secret: config.webhooks.secret,
+  logPath: config.webhooks.logPath,
+  logRetentionMs: config.webhooks.logRetentionHours * 60 * 60 * 1000,
+  maxAttempts: config.webhooks.maxAttempts,
+  blockPrivateAddresses: config.webhooks.blockPrivateAddresses,
+  allowedHosts: config.webhooks.allowedHosts,
+});
+
+// Subtitle readability rules for format=srt|vtt
+const subtitleRules = config.subtitles;
+
+// Audio field name, upload size and duration limits
+const uploadOptions = loadUploadOptions(config, tempSweeper.workDir);
+
+// Limits for JSON requests with an audioUrl
+const remoteAudioOptions = loadRemoteAudioOptions(config, tempSweeper.workDir);
+
+/**
+ * Options shared by /transcribe and /jobs, taken from query flags and form fields
+ */
+interface TranscriptionOptions {
+  useDiarize: boolean;
+  useHighAccuracy: boolean;
+  timestamps: boolean;
+  translate: boolean;
+  language?: string; // ISO-639-1 code; auto-detected if omitted
+  provider?: string;
+  prompt?: string;
+  callbackUrl?: string;
+  format?: string; // "json" (default), "srt" or "vtt"
+  speakerIds?: string[]; // Enrolled speakers to name in diarized output
+  script?: string; // Also return the transcript transliterated into this script
+  cache?: string; // "bypass" transcribes again instead of using a cached result
+  clientId?: string; // Set from the API key, not the request
+  audioSeconds?: number; // Probed duration, set once it has been charged to the client; metered in the usage log
+}
+
+/**
+ * The options a client asked for, without the fields the server adds
+ */
+function requestedOptions(
+  options: TranscriptionOptions
+): Omit<TranscriptionOptions, "clientId" | "audioSeconds"> {
+  const { clientId, audioSeconds, ...requested } = options;
+  return requested;
+}
+
+/**
+ * Progress events sent to clients that accept text/event-stream
+ */
+type ProgressEvent =
+  | TranscriptionProgress
+  | { type: "text_generation_started"; model: string };
+
+/**
+ * Values middleware stores on the request context
+ */
+type AppEnv = {
+  Variables: {
+    client?: ApiClient; // Set once the API key has been checked
+    model?: string; // Transcription model, for request metrics
+    backgroundWork?: Promise<void>; // Work that outlives the response
+  };
+};
+
+const app = new Hono<AppEnv>();
+
+// Request counts and in-flight requests for GET /metrics
+app.use("*", async (c, next) => {
+  httpRequestsInFlight.inc();
+  await runUntilSent(c, next, () => {
+    httpRequestsInFlight.dec();
+    httpRequestsTotal.inc({
+      route: routePath(c, -1),
+      method: c.req.method,
+      status: String(c.res.status),
+      model: c.get("model") || "",
+    });
+  });
+});
+
+// Requests count as in flight until their response has been sent, so
+// shutdown lets them finish. Once shutdown has started, only the health
+// checks and metrics are answered.
+app.use("*", async (c, next) => {
+  if (inFlight.isDraining && !PUBLIC_PATHS.includes(c.req.path)) {
+    c.header("Connection", "close");
+    return sendError(c, new ShuttingDownError(), {});
+  }
+
+  let onSent = () => {};
+  void inFlight.track(new Promise<void>((resolve) => (onSent = resolve)));
+  await runUntilSent(c, next, () => onSent());
+});
+
+// Every route except the health checks, metrics and the admin routes needs
+// a client API key, and counts against that key's request limits until the
+// response has been sent
+app.use("*", async (c, next) => {
+  if (
+    !requireApiKey ||
+    PUBLIC_PATHS.includes(c.req.path) ||
+    c.req.path.startsWith("/admin/")
+  ) {
+    return next();
+  }
+
+  const key = getBearerToken(c);
+  const client = key ? await apiKeyStore.findByKey(key) : undefined;
+  if (!client) {
+    return sendError(
+      c,
+      new AuthenticationError(
+        key
+          ? "Invalid or revoked API key"
+          : "Missing API key. Send it as Authorization: Bearer <key>"
+      ),
+      {}
+    );
+  }
+
+  const clientLogger = createChildLogger({
+    clientId: client.id,
+    clientName: client.name,
+  });
+  const rejection = clientLimiter.tryAcquire(client.id, client.limits);
+  if (rejection) {
+    clientLogger.warn(
+      { method: c.req.method, path: c.req.path, reason: rejection.reason },
+      "Client request limit reached"
+    );
+    return sendError(
+      c,
+      new ClientRateLimitError(
+        rejection.reason === "concurrency"
+          ? `At most ${client.limits.maxConcurrent} requests may be in progress at once for this API key`
+          : `At most ${client.limits.requestsPerMinute} requests per minute are allowed for this API key`,
+        rejection.retryAfterSeconds
+      ),
+      {}
+    );
+  }
+
+  c.set("client", client);
+  clientLogger.info(
+    { method: c.req.method, path: c.req.path },
+    "Client request received"
+  );
+
+  const startTime = Date.now();
+  await runUntilSent(c, next, () => {
+    // Work that continues after a 202 keeps the slot until it is done
+    const backgroundWork = c.get("backgroundWork");
+    if (backgroundWork) {
+      void backgroundWork
+        .catch((error) => {
+          clientLogger.error(
+            { error: error instanceof Error ? error.message : "Unknown error" },
+            "Background work failed"
+          );
+        })
+        .finally(() => clientLimiter.release(client.id));
+    } else {
+      clientLimiter.release(client.id);
+    }
+    clientLogger.info(
+      {
+        method: c.req.method,
+        path: c.req.path,
+        status: c.res.status,
+        durationMs: Date.now() - startTime,
+      },
+      "Client request finished"
+    );
+  });
+});
+
+// Admin routes need ADMIN_API_KEY, and are disabled without it
+app.use("/admin/*", async (c, next) => {
+  const adminKey = config.auth.adminApiKey;
+  if (!adminKey) {
+    return sendError(
+      c,
+      new ForbiddenError(
+        "Admin routes are disabled on this server (ADMIN_API_KEY is not set)"
+      ),
+      {}
+    );
+  }
+
+  const key = getBearerToken(c);
+  if (!key || !safeEqual(key, adminKey)) {
+    return sendError(c, new AuthenticationError("Invalid admin API key"), {});
+  }
+  return next();
+});
 
 // POST /transcribe endpoint
 app.post("/transcribe", async (c: Context) => {
   let tempFilePath: string | null = null;
   const startTime = Date.now();
-  const requestId = `req-${Date.now()}-${Math.random()
-    .toString(36)
-    .substring(2, 7)}`;
-  const requestLogger = createChildLogger({ requestId });
+  const requestId = generateId("req");
+  const requestLogger = createChildLogger({
+    requestId,
+    clientId: getClient(c)?.id,
+  });
 
   try {
     requestLogger.info("Transcription request started");
 
     // Check Content-Type
-    const contentType = c.req.header("content-type");
-    if (!contentType || !contentType.includes("multipart/form-data")) {
+    if (!hasAudioContentType(c)) {
       requestLogger.warn("Invalid Content-Type");
-      return c.json({ error: "Content-Type must be multipart/form-data" }, 400);
-    }
-
-    // Use OS temporary directory for file storage
-    const tempDir = tmpdir();
-    const uniqueId = `${Date.now()}-${Math.random()
-      .toString(36)
-      .substring(2, 9)}`;
-
-    // Use Busboy for streaming file upload
-    const { default: Busboy } = await import("busboy");
-    const { Readable } = await import("stream");
-    const { createWriteStream } = await import("fs");
-
-    // Create a promise to handle the file upload and form fields
-    const uploadPromise = new Promise<{
-      filePath: string;
-      filename: string;
-      prompt?: string;
-    }>((resolve, reject) => {
-      try {
-        const bb = Busboy({ headers: { "content-type": contentType } });
-        let fileFound = false;
-        let prompt: string | undefined;
-        let fileWriteFinished = false;
-        let busboyFinished = false;
-        let resolved = false;
-        let filename: string | undefined;
-
-        const tryResolve = () => {
-          if (resolved) return;
-          if (
-            fileWriteFinished &&
-            busboyFinished &&
-            fileFound &&
-            filename &&
-            tempFilePath
-          ) {
-            resolved = true;
-            resolve({ filePath: tempFilePath, filename, prompt });
-          }
-        };
-
-        bb.on("file", (name, file, info) => {
-          const fileInfo = info;
-          filename = fileInfo.filename;
-          requestLogger.debug({ field: name, filename }, "Received file field");
-
-          if (name !== "audio") {
-            requestLogger.debug({ field: name }, "Skipping non-audio field");
-            file.resume(); // Skip non-audio fields
-            return;
-          }
-
-          fileFound = true;
-          const ext = getFileExtension(filename) || "mp3";
-          const tempFile = join(tempDir, `transcribe-${uniqueId}.${ext}`);
-          tempFilePath = tempFile;
-
-          requestLogger.info(
-            { tempFilePath: tempFile, filename },
-            "Streaming upload to temporary file"
-          );
-          const writeStream = createWriteStream(tempFile);
-
-          file.pipe(writeStream);
-
-          writeStream.on("finish", () => {
-            requestLogger.info(
-              { tempFilePath: tempFile },
-              "File write completed"
-            );
-            fileWriteFinished = true;
-            tryResolve();
-          });
-
-          writeStream.on("error", (err: Error) => {
-            requestLogger.error(
-              { error: err.message, stack: err.stack },
-              "File write error"
-            );
-            reject(err);
-          });
-        });
-
-        bb.on("field", (name, value) => {
-          if (name === "prompt") {
-            prompt = value;
-            requestLogger.debug(
-              { promptLength: value.length },
-              "Received prompt field"
-            );
-          } else {
-            requestLogger.debug({ field: name }, "Received non-prompt field");
-          }
-        });
+      return sendError(
+        c,
+        new ValidationError(
+          "Content-Type must be multipart/form-data or application/json"
+        ),
+        { requestId }
+      );
+    }
 
-        bb.on("error", (err: Error) => {
-          requestLogger.error({ error: err.message }, "Busboy error");
-          reject(err);
-        });
+    // Wait for upload (or download) to complete
+    const upload = await receiveAudio(c, requestLogger);
+    tempFilePath = upload.filePath;
+    requestLogger.info({ filePath: upload.filePath }, "Upload complete");
 
-        bb.on("finish", () => {
-          requestLogger.debug("Busboy parsing finished");
-          busboyFinished = true;
-          if (!fileFound) {
-            reject(new Error("No audio file found in request"));
-          } else {
-            tryResolve();
-          }
-        });
+    const options = parseTranscriptionOptions(c, upload.fields);
+    const optionsError = await validateTranscriptionOptions(options);
+    if (optionsError) {
+      requestLogger.warn({ optionsError }, "Invalid transcription options");
+      await removeTempFile(tempFilePath, requestLogger);
+      return sendError(c, new ValidationError(optionsError), { requestId });
+    }
 
-        if (c.req.raw.body) {
-          // @ts-ignore
-          const nodeStream = Readable.fromWeb(c.req.raw.body);
-          nodeStream.pipe(bb);
-        } else {
-          reject(new Error("Request body is empty"));
-        }
-      } catch (err) {
-        requestLogger.error(
-          { error: err instanceof Error ? err.message : "Unknown error" },
-          "Upload promise error"
-        );
-        reject(err);
-      }
-    });
+    const streamProgress = (c.req.header("accept") || "").includes(
+      "text/event-stream"
+    );
+    if (streamProgress && options.callbackUrl) {
+      await removeTempFile(tempFilePath, requestLogger);
+      return sendError(
+        c,
+        new ValidationError(
+          "callbackUrl cannot be combined with Accept: text/event-stream"
+        ),
+        { requestId }
+      );
+    }
 
-    // Wait for upload to complete
-    const { filePath, prompt } = await uploadPromise;
-    requestLogger.info({ filePath }, "Upload complete");
+    c.set("model", getRequestModel(options));
+    const probe = await validateAudio(upload.filePath, requestLogger);
+    await chargeAudioAllowance(getClient(c), probe, requestLogger);
+    options.audioSeconds = probe.durationSeconds || 0;
 
-    // Check for diarize query parameter
-    const diarizeParam = c.req.query("diarize");
-    const useDiarize =
-      diarizeParam === "true" || diarizeParam === "1" || diarizeParam === "yes";
+    // Report progress as Server-Sent Events instead of one final response
+    if (streamProgress) {
+      // The stream now owns the uploaded file
+      tempFilePath = null;
+      return streamTranscription(c, upload, options, requestId, startTime);
+    }
 
-    // Check for high accuracy query parameter (uses gpt-4o-transcribe)
-    const accurateParam = c.req.query("accurate");
-    const useHighAccuracy =
-      accurateParam === "true" ||
-      accurateParam === "1" ||
-      accurateParam === "yes";
+    // With a callback URL, respond right away and deliver the result later
+    if (options.callbackUrl) {
+      // The background task now owns the uploaded file
+      tempFilePath = null;
+      runInBackground(
+        c,
+        runWithCallback(upload.filePath, options, requestId, startTime)
+      );
 
-    if (useDiarize) {
-      requestLogger.info("Speaker diarization enabled via query parameter");
+      requestLogger.info(
+        { callbackUrl: options.callbackUrl },
+        "Transcription accepted, result will be delivered to callback URL"
+      );
+      return c.json(
+        { requestId, status: "accepted", callbackUrl: options.callbackUrl },
+        202
+      );
     }
 
-    if (useHighAccuracy) {
-      requestLogger.info(
-        "High accuracy model (gpt-4o-transcribe) enabled via query parameter"
+    let response;
+    try {
+      response = await runTranscription(
+        upload.filePath,
+        options,
+        requestId,
+        startTime
       );
+    } catch (error) {
+      await refundAudioAllowance(options, requestLogger);
+      throw error;
     }
 
-    // Transcribe audio (pass requestId for logging context)
-    const text = await transcriptionService.transcribe(
-      filePath,
-      undefined,
-      useDiarize,
-      requestId,
-      useHighAccuracy
+    // Clean up temporary file
+    await removeTempFile(tempFilePath, requestLogger);
+
+    // Subtitle formats are returned as the file itself
+    if (response.subtitles !== undefined) {
+      return c.body(response.subtitles, 200, {
+        "Content-Type":
+          SUBTITLE_CONTENT_TYPES[response.format as SubtitleFormat],
+        "X-Request-Id": requestId,
+        "X-Cache": response.cache,
+      });
+    }
+
+    return c.json(response);
+  } catch (error) {
+    requestLogger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Transcription error"
     );
 
-    // Get text generation model from environment or use default
-    const textGenerationModel =
-      process.env.OPENAI_TEXT_GENERATION_MODEL || "gpt-4o-mini";
+    // Clean up temporary file on error
+    await removeTempFile(tempFilePath, requestLogger);
 
-    // Generate text from transcript if prompt is provided
-    let generatedText: string | undefined;
-    if (prompt && prompt.trim()) {
-      requestLogger.info(
-        { promptLength: prompt.length },
-        "Prompt provided, generating text from transcript"
+    return sendError(c, error, { requestId });
+  }
+});
+
+// POST /jobs endpoint - queue a transcription and return immediately
+app.post("/jobs", async (c: Context) => {
+  const jobId = generateId("job");
+  const requestLogger = createChildLogger({
+    jobId,
+    clientId: getClient(c)?.id,
+  });
+
+  try {
+    requestLogger.info("Job submission started");
+
+    if (!hasAudioContentType(c)) {
+      requestLogger.warn("Invalid Content-Type");
+      return sendError(
+        c,
+        new ValidationError(
+          "Content-Type must be multipart/form-data or application/json"
+        ),
+        { jobId }
       );
-      try {
-        generatedText = await transcriptionService.generateTextFromTranscript(
-          text,
-          prompt,
-          textGenerationModel,
-          requestId
-        );
-        requestLogger.info(
-          { generatedTextLength: generatedText.length },
-          "Text generation completed"
-        );
-      } catch (error) {
-        requestLogger.error(
-          {
-            error: error instanceof Error ? error.message : "Unknown error",
-            stack: error instanceof Error ? error.stack : undefined,
-          },
-          "Text generation failed, returning transcript only"
-        );
-        // Continue with just the transcript if text generation fails
-      }
     }
 
-    // Calculate processing time
-    const processingTimeMs = Date.now() - startTime;
-    const processingTimeSeconds = (processingTimeMs / 1000).toFixed(2);
+    const upload = await receiveAudio(c, requestLogger);
+    const options = parseTranscriptionOptions(c, upload.fields);
+    const optionsError = await validateTranscriptionOptions(options);
+    if (optionsError) {
+      requestLogger.warn({ optionsError }, "Invalid transcription options");
+      await removeTempFile(upload.filePath, requestLogger);
+      return sendError(c, new ValidationError(optionsError), { jobId });
+    }
 
-    // Determine model name for logging and response
-    let modelName: string;
-    if (useDiarize) {
-      modelName = "gpt-4o-transcribe-diarize";
-    } else if (useHighAccuracy) {
-      modelName = "gpt-4o-transcribe";
-    } else {
-      modelName = "gpt-4o-mini-transcribe";
+    c.set("model", getRequestModel(options));
+    try {
+      const probe = await validateAudio(upload.filePath, requestLogger);
+      await chargeAudioAllowance(getClient(c), probe, requestLogger);
+      options.audioSeconds = probe.durationSeconds || 0;
+    } catch (error) {
+      await removeTempFile(upload.filePath, requestLogger);
+      throw error;
+    }
+
+    let job;
+    try {
+      job = await jobStore.create({
+        id: jobId,
+        filename: upload.filename,
+        filePath: upload.filePath,
+        options: requestedOptions(options),
+        clientId: options.clientId,
+      });
+    } catch (error) {
+      await removeTempFile(upload.filePath, requestLogger);
+      await refundAudioAllowance(options, requestLogger);
+      throw error;
     }
 
     requestLogger.info(
+      { filename: upload.filename, queued: jobRunner.queued },
+      "Job queued"
+    );
+
+    // Run in the background once a slot is free; the client polls
+    // GET /jobs/:id
+    runInBackground(
+      c,
+      jobRunner.run(() => runJob(jobId, upload.filePath, options))
+    );
+
+    return c.json(
+      {
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/jobs/${job.id}`,
+        createdAt: job.createdAt,
+      },
+      202
+    );
+  } catch (error) {
+    requestLogger.error(
       {
-        processingTimeMs,
-        processingTimeSeconds: parseFloat(processingTimeSeconds),
-        textLength: text.length,
-        model: modelName,
-        hasGeneratedText: !!generatedText,
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
       },
-      "Transcription completed successfully"
+      "Job submission error"
     );
 
-    // Clean up temporary file
-    if (tempFilePath) {
-      try {
-        await unlink(tempFilePath);
-        requestLogger.debug({ tempFilePath }, "Temporary file cleaned up");
-      } catch (cleanupError) {
-        requestLogger.warn(
-          {
-            error:
-              cleanupError instanceof Error
-                ? cleanupError.message
-                : "Unknown error",
-            tempFilePath,
-          },
-          "Failed to clean up temporary file"
-        );
-      }
+    return sendError(c, error, { jobId }, "Failed to create transcription job");
+  }
+});
+
+// GET /jobs/:id endpoint - job status and result
+app.get("/jobs/:id", async (c: Context) => {
+  const job = await jobStore.get(c.req.param("id"));
+  if (!job || !isOwnedBy(job.clientId, getClient(c)?.id)) {
+    return c.json({ error: "Job not found" }, 404);
+  }
+
+  return c.json({
+    jobId: job.id,
+    status: job.status,
+    filename: job.filename,
+    options: requestedOptions(job.options as TranscriptionOptions),
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    result: job.result,
+    error: job.error,
+    errorCode: job.errorCode,
+  });
+});
+
+// GET /webhooks/deliveries/:id endpoint - delivery log for a request or job
+app.get("/webhooks/deliveries/:id", async (c: Context) => {
+  const requestId = c.req.param("id");
+  const clientId = getClient(c)?.id;
+  const deliveries = (await webhookService.getDeliveries(requestId)).filter(
+    (delivery) => isOwnedBy(delivery.clientId, clientId)
+  );
+  if (deliveries.length === 0) {
+    return c.json({ error: "No webhook deliveries found" }, 404);
+  }
+  return c.json({ requestId, deliveries });
+});
+
+// POST /speakers endpoint - enroll a known speaker from reference clips
+app.post("/speakers", async (c: Context) => {
+  const speakerId = generateId("spk");
+  const requestLogger = createChildLogger({
+    speakerId,
+    clientId: getClient(c)?.id,
+  });
+  let clipPaths: string[] = [];
+
+  try {
+    const contentType = c.req.header("content-type");
+    if (!contentType || !contentType.includes("multipart/form-data")) {
+      requestLogger.warn("Invalid Content-Type");
+      return sendError(
+        c,
+        new ValidationError("Content-Type must be multipart/form-data"),
+        {}
+      );
     }
 
-    // Build response object
-    const response: any = {
-      text,
-      processingTimeSeconds: parseFloat(processingTimeSeconds),
-      processingTimeMs,
-      requestId,
-      model: modelName,
-      diarize: useDiarize,
-      accurate: useHighAccuracy,
-    };
+    const upload = await receiveFileUploads(
+      c,
+      requestLogger,
+      uploadOptions.fieldName,
+      MAX_ENROLLMENT_CLIPS,
+      uploadOptions.maxBytes,
+      uploadOptions.tempDir
+    );
+    clipPaths = upload.files.map((file) => file.filePath);
 
-    // Add generated text and model info if prompt was provided
-    if (generatedText) {
-      response.generatedText = generatedText;
-      response.textGenerationModel = textGenerationModel;
+    const name = upload.fields.name?.trim();
+    if (!name) {
+      return sendError(c, new ValidationError("name is required"), {});
+    }
+    if (name.length > 64) {
+      return sendError(
+        c,
+        new ValidationError("name must be at most 64 characters"),
+        {}
+      );
+    }
+    if (await speakerStore.findByName(name, getClient(c)?.id)) {
+      return c.json(
+        {
+          error: `A speaker named "${name}" is already enrolled`,
+          code: "speaker_exists",
+        },
+        409
+      );
     }
 
-    return c.json(response);
+    const reference = await transcriptionService.createSpeakerReference(
+      clipPaths
+    );
+
+    const speaker = await speakerStore.create({
+      id: speakerId,
+      name,
+      reference: reference.reference,
+      referenceDurationSeconds: reference.durationSeconds,
+      clipCount: clipPaths.length,
+      clientId: getClient(c)?.id,
+    });
+    requestLogger.info(
+      { name, clipCount: clipPaths.length },
+      "Speaker enrolled"
+    );
+
+    return c.json(describeSpeaker(speaker), 201);
   } catch (error) {
     requestLogger.error(
       {
         error: error instanceof Error ? error.message : "Unknown error",
         stack: error instanceof Error ? error.stack : undefined,
       },
-      "Transcription error"
+      "Speaker enrollment error"
     );
 
-    // Clean up temporary file on error
-    if (tempFilePath) {
-      try {
-        await unlink(tempFilePath);
-        requestLogger.debug(
-          { tempFilePath },
-          "Temporary file cleaned up after error"
-        );
-      } catch (cleanupError) {
-        requestLogger.warn(
-          {
-            error:
-              cleanupError instanceof Error
-                ? cleanupError.message
-                : "Unknown error",
-            tempFilePath,
-          },
-          "Failed to clean up temporary file after error"
-        );
-      }
+    return sendError(c, error, {}, "Failed to enroll speaker");
+  } finally {
+    for (const clipPath of clipPaths) {
+      await removeTempFile(clipPath, requestLogger);
     }
+  }
+});
 
-    return c.json(
-      {
-        error: "Failed to transcribe audio",
-        details: error instanceof Error ? error.message : "Unknown error",
-        requestId,
-      },
-      500
-    );
+// GET /speakers endpoint - list enrolled speakers
+app.get("/speakers", async (c: Context) => {
+  const speakers = await speakerStore.list(
+    requireApiKey ? getClient(c)?.id : undefined
+  );
+  return c.json({ speakers: speakers.map(describeSpeaker) });
+});
+
+// GET /speakers/:id endpoint
+app.get("/speakers/:id", async (c: Context) => {
+  const speaker = await speakerStore.get(c.req.param("id"));
+  if (!speaker || !isOwnedBy(speaker.clientId, getClient(c)?.id)) {
+    return c.json({ error: "Speaker not found" }, 404);
   }
+  return c.json(describeSpeaker(speaker));
 });
 
-// Health check endpoint
-app.get("/", (c: Context) => {
-  return c.json({
-    message: "OpenAI Whisper Transcription API",
-    status: "ok",
-    model: "gpt-4o-mini-transcribe",
-    provider: "OpenAI",
-    languages: "Auto-detect (Hindi, Urdu, English, 99+ more)",
-  });
+// DELETE /speakers/:id endpoint
+app.delete("/speakers/:id", async (c: Context) => {
+  const speaker = await speakerStore.get(c.req.param("id"));
+  if (!speaker || !isOwnedBy(speaker.clientId, getClient(c)?.id)) {
+    return c.json({ error: "Speaker not found" }, 404);
+  }
+  await speakerStore.delete(speaker.id);
+  return c.body(null, 204);
 });
 
-/**
- * Extract file extension from filename
- */
-function getFileExtension(filename: string): string | null {
-  const parts = filename.split(".");
-  return parts.length > 1 ? parts[parts.length - 1] : null;
-}
+// GET /usage endpoint - usage and cost of the calling API key
+app.get("/usage", (c: Context) => sendUsageReport(c, getClient(c)?.id));
 
-const port = 3001;
-logger.info({ port }, "Server starting");
-logger.info("Using OpenAI Whisper API (gpt-4o-mini-transcribe model)");
-logger.info("Make sure OPENAI_API_KEY environment variable is set");
+// POST /admin/keys endpoint - create a client API key
+app.post("/admin/keys", async (c: Context) => {
+  const body = await c.req.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return sendError(c, new ValidationError("name is required"), {});
+  }
+  if (name.length > 64) {
+    return sendError(
+      c,
+      new ValidationError("name must be at most 64 characters"),
+      {}
+    );
+  }
 
-serve({
-  fetch: app.fetch,
-  port,
-});
+  const limits = { ...DEFAULT_CLIENT_LIMITS };
+  for (const field of Object.keys(limits) as Array<keyof ClientLimits>) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < 0) {
+      return sendError(
+        c,
+        new ValidationError(
+          `${field} must be a non-negative integer (0 for no limit)`
+        ),
+        {}
+      );
+    }
+    limits[field] = value;
+  }
+
+  const { client, key } = await apiKeyStore.create(
+    generateId("client"),
+    name,
+    limits
+  );
+  logger.info({ clientId: client.id, name }, "API key created");
+
+  // The key itself is only ever returned here
+  return c.json({ ...describeClient(client), key }, 201);
+});
+
+// GET /admin/keys endpoint - list client API keys and their usage
+app.get("/admin/keys", async (c: Context) => {
+  const clients = await apiKeyStore.list();
+  return c.json({ keys: clients.map(describeClient) });
+});
+
+// DELETE /admin/keys/:id endpoint - revoke a client API key
+app.delete("/admin/keys/:id", async (c: Context) => {
+  const client = await apiKeyStore.revoke(c.req.param("id"));
+  if (!client) {
+    return c.json({ error: "API key not found" }, 404);
+  }
+  logger.info({ clientId: client.id }, "API key revoked");
+  return c.json(describeClient(client));
+});
+
+// GET /admin/usage endpoint - usage and cost of all clients, or of ?clientId=
+app.get("/admin/usage", (c: Context) =>
+  sendUsageReport(c, c.req.query("clientId") || undefined)
+);
+
+// GET /metrics endpoint - Prometheus text format
+app.get("/metrics", async (c: Context) => {
+  return c.body(await metricsRegistry.render(), 200, {
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+  });
+});
+
+// Service summary
+app.get("/", (c: Context) => {
+  return c.json({
+    message: "Audio Transcription API",
+    status: "ok",
+    version: appVersion,
+    model: transcriptionService.getModelName({}),
+    provider: transcriptionService.getDefaultProviderName(),
+    languages: "Auto-detect (Hindi, Urdu, English, 99+ more)",
+  });
+});
+
+// GET /healthz endpoint - liveness: the process is up and serving requests
+app.get("/healthz", (c: Context) => {
+  return c.json({
+    status: "ok",
+    version: appVersion,
+    uptimeSeconds: Math.floor(process.uptime()),
+  });
+});
+
+// GET /readyz endpoint - readiness: ffmpeg, temp space and the default
+// provider are available. 503 while any of them isn't, or during shutdown.
+// Check details and the configuration are only shown with the admin key.
+app.get("/readyz", async (c: Context) => {
+  if (inFlight.isDraining) {
+    return c.json(
+      { status: "shutting_down", version: appVersion, inFlight: inFlight.size },
+      503
+    );
+  }
+
+  const report = await healthService.checkReadiness();
+  const status = report.ready ? "ready" : "not_ready";
+  if (!isAdminRequest(c)) {
+    return c.json(
+      { status, version: appVersion, checks: summarizeReadiness(report) },
+      report.ready ? 200 : 503
+    );
+  }
+  return c.json(
+    {
+      status,
+      version: appVersion,
+      checks: report.checks,
+      config: describeConfiguration(),
+    },
+    report.ready ? 200 : 503
+  );
+});
+
+/**
+ * The models, limits and features in effect, as configured through the
+ * environment and the config file
+ */
+function describeConfiguration(): Record<string, any> {
+  const providers: Record<string, any> = {};
+  for (const name of transcriptionService.getProviderNames()) {
+    const { capabilities } = transcriptionService.getProvider(name);
+    const modelFor = (options: Record<string, boolean>) =>
+      transcriptionService.getModelName({ ...options, provider: name });
+    providers[name] = {
+      capabilities,
+      models: {
+        default: modelFor({}),
+        accurate: modelFor({ useHighAccuracy: true }),
+        timestamps: modelFor({ timestamps: true }),
+        translate: capabilities.translation
+          ? modelFor({ translate: true })
+          : null,
+        diarize: capabilities.diarization
+          ? modelFor({ useDiarize: true })
+          : null,
+      },
+    };
+  }
+
+  return {
+    defaultProvider: transcriptionService.getDefaultProviderName(),
+    providers,
+    textGenerationModel: config.textGenerationModel,
+    tempDir: config.tempDir,
+    workDir: tempSweeper.workDir,
+    transcription: config.transcription,
+    limits: {
+      maxUploadBytes: uploadOptions.maxBytes,
+      maxAudioDurationSeconds: uploadOptions.maxDurationSeconds,
+      maxDownloadBytes: remoteAudioOptions.maxBytes,
+      downloadTimeoutMs: remoteAudioOptions.timeoutMs,
+      maxRequestSpeakers: MAX_REQUEST_SPEAKERS,
+      maxEnrollmentClips: MAX_ENROLLMENT_CLIPS,
+    },
+    features: {
+      apiKeysRequired: requireApiKey,
+      adminRoutes: !!config.auth.adminApiKey,
+      webhooks: webhookService.isConfigured(),
+      resultCache: resultCache.enabled,
+    },
+  };
+}
+
+/**
+ * Run the remaining handlers, then call onSent once the response has been
+ * sent. Streamed responses are still being written when next() returns, so
+ * on Node this waits for the response to close (finished or aborted).
+ */
+async function runUntilSent(
+  c: Context,
+  next: () => Promise<void>,
+  onSent: () => void
+): Promise<void> {
+  const outgoing = (c.env as { outgoing?: ServerResponse } | undefined)
+    ?.outgoing;
+  outgoing?.once("close", onSent);
+  try {
+    await next();
+  } finally {
+    if (!outgoing) {
+      onSent();
+    }
+  }
+}
+
+/**
+ * Whether a request carries audio as a multipart upload or a JSON audioUrl
+ */
+function hasAudioContentType(c: Context): boolean {
+  const contentType = c.req.header("content-type") || "";
+  return (
+    contentType.includes("multipart/form-data") ||
+    contentType.includes("application/json")
+  );
+}
+
+/**
+ * Receive the audio of a /transcribe or /jobs request: a multipart upload,
+ * or a JSON body whose audioUrl is downloaded. The other string properties
+ * of a JSON body are used like form fields.
+ */
+async function receiveAudio(
+  c: Context,
+  log: ReturnType<typeof createChildLogger>
+): Promise<AudioUpload> {
+  const contentType = c.req.header("content-type") || "";
+  if (!contentType.includes("application/json")) {
+    return receiveAudioUpload(c, log, uploadOptions);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  if (!body || typeof body.audioUrl !== "string") {
+    throw new RemoteAudioError(
+      "JSON body must contain an audioUrl string",
+      400
+    );
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [name, value] of Object.entries(body)) {
+    if (typeof value === "string" && name !== "audioUrl") {
+      fields[name] = value;
+    }
+  }
+
+  const file = await downloadAudio(body.audioUrl, log, remoteAudioOptions);
+  return { ...file, fields };
+}
+
+/**
+ * Check with ffprobe that a received file really is audio in an accepted
+ * codec, within the duration limit
+ * @returns What ffprobe found
+ * @throws UnsupportedMediaError if it isn't audio, or its codec isn't accepted
+ * @throws PayloadTooLargeError if it's too long
+ */
+async function validateAudio(
+  filePath: string,
+  log: ReturnType<typeof createChildLogger>
+): Promise<AudioProbe> {
+  const probe = await transcriptionService.probeAudio(filePath);
+  if (!probe) {
+    log.warn({ filePath }, "Received file contains no audio");
+    throw new UnsupportedMediaError(
+      "File does not contain decodable audio. Upload audio or video such as mp3, m4a, wav or mp4."
+    );
+  }
+  if (!isAllowedAudioCodec(probe.codec)) {
+    log.warn({ codec: probe.codec }, "Audio codec is not accepted");
+    throw new UnsupportedMediaError(
+      `Audio codec ${probe.codec} is not supported. Upload audio such as mp3, aac, opus, flac or wav.`
+    );
+  }
+
+  const { maxDurationSeconds } = uploadOptions;
+  if (
+    maxDurationSeconds > 0 &&
+    probe.durationSeconds !== null &&
+    probe.durationSeconds > maxDurationSeconds
+  ) {
+    log.warn(
+      { durationSeconds: probe.durationSeconds, maxDurationSeconds },
+      "Audio exceeds the duration limit"
+    );
+    throw new PayloadTooLargeError(
+      `Audio is ${Math.ceil(
+        probe.durationSeconds / 60
+      )} minutes long; the limit is ${Math.floor(
+        maxDurationSeconds / 60
+      )} minutes`
+    );
+  }
+
+  if (probe.durationSeconds !== null) {
+    audioDurationSeconds.observe(probe.durationSeconds);
+  }
+  log.info(
+    {
+      formatName: probe.formatName,
+      codec: probe.codec,
+      durationSeconds: probe.durationSeconds,
+      channels: probe.channels,
+      sampleRate: probe.sampleRate,
+      bitRate: probe.bitRate,
+    },
+    "Audio validated"
+  );
+  return probe;
+}
+
+/**
+ * Count received audio against the client's monthly allowance
+ * @throws QuotaExceededError if the allowance is used up
+ */
+async function chargeAudioAllowance(
+  client: ApiClient | undefined,
+  probe: AudioProbe,
+  log: ReturnType<typeof createChildLogger>
+): Promise<void> {
+  if (!client) {
+    return;
+  }
+
+  const audioSeconds = probe.durationSeconds || 0;
+  if (await apiKeyStore.chargeAudio(client.id, audioSeconds)) {
+    return;
+  }
+
+  const usedMinutes = Math.floor(
+    apiKeyStore.getMonthlyAudioSeconds(client) / 60
+  );
+  log.warn(
+    {
+      audioSeconds,
+      usedMinutes,
+      monthlyAudioMinutes: client.limits.monthlyAudioMinutes,
+    },
+    "Monthly audio allowance exceeded"
+  );
+
+  // Allowances start over at the beginning of the next month (UTC)
+  const now = new Date();
+  const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  throw new QuotaExceededError(
+    `This audio would exceed the monthly allowance of ${client.limits.monthlyAudioMinutes} audio minutes for this API key (${usedMinutes} used)`,
+    Math.ceil((nextMonth - now.getTime()) / 1000)
+  );
+}
+
+/**
+ * Give back the audio charged for a transcription that failed. Never
+ * throws; failures are logged.
+ */
+async function refundAudioAllowance(
+  options: TranscriptionOptions,
+  log: ReturnType<typeof createChildLogger>
+): Promise<void> {
+  if (!options.clientId || !options.audioSeconds) {
+    return;
+  }
+  try {
+    await apiKeyStore.refundAudio(options.clientId, options.audioSeconds);
+  } catch (error) {
+    log.error(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      "Failed to refund audio allowance"
+    );
+  }
+}
+
+/**
+ * Read transcription options from query parameters and form fields
+ */
+function parseTranscriptionOptions(
+  c: Context,
+  fields: Record<string, string>
+): TranscriptionOptions {
+  // Check for diarize query parameter
+  const useDiarize = isTruthyFlag(c.req.query("diarize"));
+
+  // Check for high accuracy query parameter (uses gpt-4o-transcribe)
+  const useHighAccuracy = isTruthyFlag(c.req.query("accurate"));
+
+  // Check for timestamps query parameter (returns timed segments)
+  const timestamps = isTruthyFlag(c.req.query("timestamps"));
+
+  // Check for translate query parameter (English output)
+  const translate = isTruthyFlag(c.req.query("translate"));
+
+  return {
+    useDiarize,
+    useHighAccuracy,
+    timestamps,
+    translate,
+    language:
+      (c.req.query("language") || fields.language)?.trim().toLowerCase() ||
+      undefined,
+    provider: c.req.query("provider") || undefined,
+    prompt: fields.prompt,
+    callbackUrl: fields.callbackUrl?.trim() || undefined,
+    format: c.req.query("format")?.toLowerCase() || undefined,
+    speakerIds: parseList(c.req.query("speakers")),
+    script: c.req.query("script")?.toLowerCase() || undefined,
+    cache: c.req.query("cache")?.toLowerCase() || undefined,
+    clientId: getClient(c)?.id,
+  };
+}
+
+/**
+ * Validate options that can't be checked while parsing
+ * @returns An error message, or null if the options are valid
+ */
+async function validateTranscriptionOptions(
+  options: TranscriptionOptions
+): Promise<string | null> {
+  if (options.format && !["json", "srt", "vtt"].includes(options.format)) {
+    return "format must be one of: json, srt, vtt";
+  }
+  if (options.translate && options.useDiarize) {
+    return "translate cannot be combined with diarize";
+  }
+  if (options.language && !isSupportedLanguage(options.language)) {
+    return "language must be a supported ISO-639-1 code (e.g. hi, ur, en)";
+  }
+  if (options.language && options.translate) {
+    return "language cannot be combined with translate";
+  }
+  if (options.script && !isTransliterationScript(options.script)) {
+    return `script must be one of: ${TRANSLITERATION_SCRIPTS.join(", ")}`;
+  }
+  if (options.cache && options.cache !== "bypass") {
+    return 'cache must be "bypass" when set';
+  }
+
+  const providerNames = transcriptionService.getProviderNames();
+  if (options.provider && !providerNames.includes(options.provider)) {
+    return `provider must be one of: ${providerNames.join(", ")}`;
+  }
+  const { capabilities } = transcriptionService.getProvider(options.provider);
+  if (options.useDiarize && !capabilities.diarization) {
+    return "The selected provider does not support diarization";
+  }
+  if (options.translate && !capabilities.translation) {
+    return "The selected provider does not support translation";
+  }
+
+  if (options.speakerIds) {
+    if (!options.useDiarize) {
+      return "speakers requires diarize=true";
+    }
+    if (new Set(options.speakerIds).size > MAX_REQUEST_SPEAKERS) {
+      return `At most ${MAX_REQUEST_SPEAKERS} enrolled speakers can be used per request`;
+    }
+    for (const id of options.speakerIds) {
+      const speaker = await speakerStore.get(id);
+      if (!speaker || !isOwnedBy(speaker.clientId, options.clientId)) {
+        return `Enrolled speaker not found: ${id}`;
+      }
+    }
+  }
+
+  if (options.callbackUrl) {
+    return checkCallbackUrl(options.callbackUrl);
+  }
+  return null;
+}
+
+/**
+ * The transcription model a request will use
+ */
+function getRequestModel(options: TranscriptionOptions): string {
+  // Subtitles need timed segments
+  return transcriptionService.getModelName({
+    useDiarize: options.useDiarize,
+    useHighAccuracy: options.useHighAccuracy,
+    timestamps: options.timestamps || isSubtitleFormat(options.format),
+    translate: options.translate,
+    provider: options.provider,
+  });
+}
+
+function isSubtitleFormat(
+  format: string | undefined
+): format is SubtitleFormat {
+  return format === "srt" || format === "vtt";
+}
+
+/**
+ * Check that a callback URL can be used
+ * @returns An error message, or null if webhooks can be delivered to it
+ */
+async function checkCallbackUrl(callbackUrl: string): Promise<string | null> {
+  if (!webhookService.isConfigured()) {
+    return "Webhook callbacks are not enabled on this server (WEBHOOK_SECRET is not set)";
+  }
+  return webhookService.validateCallbackUrl(callbackUrl);
+}
+
+/**
+ * Transcribe an uploaded file, optionally generate text from the transcript,
+ * and build the response object returned to clients.
+ * The caller is responsible for removing the uploaded file.
+ */
+async function runTranscription(
+  filePath: string,
+  options: TranscriptionOptions,
+  requestId: string,
+  startTime: number = Date.now(),
+  onProgress?: (event: ProgressEvent) => void
+): Promise<Record<string, any>> {
+  const requestLogger = createChildLogger({
+    requestId,
+    clientId: options.clientId,
+  });
+  const { useDiarize, useHighAccuracy, prompt } = options;
+  const subtitleFormat = isSubtitleFormat(options.format)
+    ? options.format
+    : undefined;
+
+  if (useDiarize) {
+    requestLogger.info("Speaker diarization enabled via query parameter");
+  }
+
+  if (useHighAccuracy) {
+    requestLogger.info(
+      "High accuracy model (gpt-4o-transcribe) enabled via query parameter"
+    );
+  }
+
+  // Enrolled speakers are looked up now, since a queued job may start later
+  const knownSpeakers: KnownSpeaker[] = [];
+  for (const id of new Set(options.speakerIds || [])) {
+    const speaker = await speakerStore.get(id);
+    if (!speaker || !isOwnedBy(speaker.clientId, options.clientId)) {
+      throw new ValidationError(`Enrolled speaker not found: ${id}`);
+    }
+    knownSpeakers.push({ name: speaker.name, reference: speaker.reference });
+  }
+
+  // Subtitles need timed segments
+  const transcribeOptions = {
+    useDiarize,
+    useHighAccuracy,
+    timestamps: options.timestamps || !!subtitleFormat,
+    translate: options.translate,
+    language: options.language,
+    provider: options.provider,
+    knownSpeakers,
+    requestId,
+    onProgress,
+    signal: abandonWork.signal,
+  };
+  const providerName =
+    options.provider || transcriptionService.getDefaultProviderName();
+
+  // Determine model name for logging, caching and the response
+  const modelName = getRequestModel(options);
+
+  // The same audio with the same options gives the same transcript, so
+  // provider results are cached by content hash
+  let cacheStatus: "hit" | "miss" | "bypass" | "off" = "off";
+  let cacheKey: string | undefined;
+  let transcription: TranscriptionResult | undefined;
+  if (resultCache.enabled) {
+    cacheKey = ResultCache.key(await hashFile(filePath), {
+      provider: providerName,
+      model: modelName,
+      language: transcribeOptions.language,
+      translate: transcribeOptions.translate,
+      timestamps: transcribeOptions.timestamps,
+      diarize: useDiarize,
+      knownSpeakers,
+    });
+    if (options.cache === "bypass") {
+      cacheStatus = "bypass";
+    } else {
+      transcription = await resultCache.get(cacheKey);
+      cacheStatus = transcription ? "hit" : "miss";
+    }
+  }
+
+  if (transcription) {
+    requestLogger.info("Using cached transcription");
+  } else {
+    // Transcribe audio (pass requestId for logging context)
+    transcription = await transcriptionService.transcribeDetailed(
+      filePath,
+      transcribeOptions
+    );
+    if (cacheKey) {
+      await resultCache.set(cacheKey, transcription).catch((error) => {
+        requestLogger.warn(
+          { error: error instanceof Error ? error.message : "Unknown error" },
+          "Failed to cache transcription"
+        );
+      });
+    }
+  }
+  const { text, segments, language, chunkLanguages, chunkCount } =
+    transcription;
+  // Chunked recordings always report where each part of the text was spoken
+  const returnSegments = options.timestamps || !!chunkCount;
+
+  const { textGenerationModel } = config;
+
+  // Generate text from transcript if prompt is provided
+  let generatedText: string | undefined;
+  let textGeneration: ProviderChatResult | undefined;
+  if (prompt && prompt.trim()) {
+    requestLogger.info(
+      { promptLength: prompt.length },
+      "Prompt provided, generating text from transcript"
+    );
+    onProgress?.({
+      type: "text_generation_started",
+      model: textGenerationModel,
+    });
+    try {
+      textGeneration = await transcriptionService.generateTextFromTranscript(
+        text,
+        prompt,
+        textGenerationModel,
+        requestId,
+        options.provider
+      );
+      generatedText = textGeneration.text;
+      requestLogger.info(
+        { generatedTextLength: generatedText.length },
+        "Text generation completed"
+      );
+    } catch (error) {
+      requestLogger.error(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        "Text generation failed, returning transcript only"
+      );
+      // Continue with just the transcript if text generation fails
+    }
+  }
+
+  const usage = await recordUsage({
+    requestId,
+    clientId: options.clientId,
+    audioSeconds: options.audioSeconds || 0,
+    provider: providerName,
+    model: modelName,
+    cache: cacheStatus,
+    textGeneration,
+  });
+
+  // Calculate processing time
+  const processingTimeMs = Date.now() - startTime;
+  processingSeconds.observe(processingTimeMs / 1000, { model: modelName });
+  const processingTimeSeconds = (processingTimeMs / 1000).toFixed(2);
+
+  requestLogger.info(
+    {
+      processingTimeMs,
+      processingTimeSeconds: parseFloat(processingTimeSeconds),
+      textLength: text.length,
+      model: modelName,
+      provider: providerName,
+      hasGeneratedText: !!generatedText,
+      cache: cacheStatus,
+    },
+    "Transcription completed successfully"
+  );
+
+  // Build response object
+  const response: any = {
+    text,
+    processingTimeSeconds: parseFloat(processingTimeSeconds),
+    processingTimeMs,
+    requestId,
+    model: modelName,
+    provider: providerName,
+    diarize: useDiarize,
+    accurate: useHighAccuracy,
+    cache: cacheStatus,
+    usage: {
+      audioSeconds: usage.audioSeconds,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: usage.cost,
+    },
+  };
+
+  if (options.translate) {
+    response.translated = true;
+  } else {
+    // Only whisper models report the spoken language; the field is left
+    // out for the others rather than sent as null
+    if (options.language) {
+      response.language = options.language;
+    }
+    if (language) {
+      response.detectedLanguage = language;
+    }
+    if (chunkLanguages) {
+      response.chunkLanguages = chunkLanguages;
+    }
+  }
+
+  // Add generated text and model info if prompt was provided
+  if (generatedText) {
+    response.generatedText = generatedText;
+    response.textGenerationModel = textGenerationModel;
+  }
+
+  if (returnSegments) {
+    response.segments = segments || [];
+  }
+
+  // Speaker turns and talk time, from the speaker-labelled segments
+  if (useDiarize) {
+    const utterances = buildUtterances(segments || []);
+    response.speakers = listSpeakers(utterances);
+    response.utterances = utterances;
+    response.speakerStats = computeSpeakerStats(utterances);
+  }
+
+  // Transliterated copy next to the original transcript
+  let transliteratedSegments: typeof segments;
+  if (options.script) {
+    const script = options.script as TransliterationScript;
+    transliteratedSegments = segments?.map((segment) => ({
+      ...segment,
+      text: transliterate(segment.text, script),
+    }));
+    response.transliteration = {
+      script,
+      text: transliterate(text, script),
+    };
+    if (returnSegments) {
+      response.transliteration.segments = transliteratedSegments || [];
+    }
+  }
+
+  if (subtitleFormat) {
+    // Subtitles are rendered in the requested script, if any
+    response.format = subtitleFormat;
+    response.subtitles = renderSubtitles(
+      transliteratedSegments || segments || [],
+      subtitleFormat,
+      subtitleRules
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Respond with usage grouped by day, client and model, as JSON or (with
+ * `format=csv`) as a CSV download. Covers `from` to `to` (YYYY-MM-DD,
+ * inclusive), by default the current month (UTC) to date.
+ * @param clientId - Only report this client's usage
+ */
+async function sendUsageReport(
+  c: Context,
+  clientId: string | undefined
+): Promise<Response> {
+  const today = new Date().toISOString().slice(0, 10);
+  const from = c.req.query("from") || `${today.slice(0, 7)}-01`;
+  const to = c.req.query("to") || today;
+  const format = c.req.query("format")?.toLowerCase() || "json";
+
+  const isDay = (value: string) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+  if (!isDay(from) || !isDay(to)) {
+    return sendError(
+      c,
+      new ValidationError("from and to must be dates in YYYY-MM-DD format"),
+      {}
+    );
+  }
+  if (from > to) {
+    return sendError(c, new ValidationError("from must not be after to"), {});
+  }
+  if (format !== "json" && format !== "csv") {
+    return sendError(
+      c,
+      new ValidationError("format must be one of: json, csv"),
+      {}
+    );
+  }
+
+  const records = await usageStore.query({ from, to, clientId });
+  const rows = summarizeUsage(records);
+
+  if (format === "csv") {
+    return c.body(usageToCsv(rows), 200, {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="usage-${from}-to-${to}.csv"`,
+    });
+  }
+
+  // Rows split a request's transcription and text generation, so requests
+  // are counted from the records
+  const totals = {
+    requests: records.length,
+    audioMinutes: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cost: 0,
+  };
+  for (const row of rows) {
+    totals.audioMinutes += row.audioMinutes;
+    totals.promptTokens += row.promptTokens;
+    totals.completionTokens += row.completionTokens;
+    totals.cost += row.cost;
+  }
+  totals.audioMinutes = Math.round(totals.audioMinutes * 100) / 100;
+  totals.cost = Math.round(totals.cost * 1000000) / 1000000;
+
+  return c.json({ from, to, clientId, currency: "USD", rows, totals });
+}
+
+/**
+ * Meter a finished transcription and append it to the usage log
+ */
+async function recordUsage(details: {
+  requestId: string;
+  clientId?: string;
+  audioSeconds: number; // Probed when the audio was validated
+  provider: string;
+  model: string;
+  cache: string;
+  textGeneration?: ProviderChatResult;
+}): Promise<UsageRecord> {
+  const log = createChildLogger({
+    requestId: details.requestId,
+    clientId: details.clientId,
+  });
+  const priceOrZero = (model: string, cost: number | undefined): number => {
+    if (cost === undefined) {
+      log.debug({ model }, "No price for model, counting it as free");
+    }
+    return cost || 0;
+  };
+
+  const { audioSeconds } = details;
+  // Cached transcripts didn't call the provider, so only the audio is counted
+  const transcriptionCost =
+    details.cache === "hit"
+      ? 0
+      : priceOrZero(
+          details.model,
+          audioCost(priceTable, details.model, audioSeconds)
+        );
+
+  const record: UsageRecord = {
+    requestId: details.requestId,
+    clientId: details.clientId,
+    timestamp: new Date().toISOString(),
+    provider: details.provider,
+    model: details.model,
+    audioSeconds: Math.round(audioSeconds * 100) / 100,
+    cache: details.cache,
+    transcriptionCost,
+    cost: transcriptionCost,
+  };
+
+  const { textGeneration } = details;
+  if (textGeneration) {
+    const promptTokens = textGeneration.usage?.promptTokens || 0;
+    const completionTokens = textGeneration.usage?.completionTokens || 0;
+    record.textGenerationModel = textGeneration.model;
+    record.promptTokens = promptTokens;
+    record.completionTokens = completionTokens;
+    record.textGenerationCost = priceOrZero(
+      textGeneration.model,
+      tokenCost(
+        priceTable,
+        textGeneration.model,
+        promptTokens,
+        completionTokens
+      )
+    );
+    record.cost += record.textGenerationCost;
+  }
+
+  await usageStore.record(record);
+  return record;
+}
+
+/**
+ * Transcribe while streaming progress as Server-Sent Events, ending with a
+ * "completed" event carrying the usual response body or a "failed" event
+ * carrying the error body. Removes the uploaded file when done.
+ */
+function streamTranscription(
+  c: Context,
+  upload: AudioUpload,
+  options: TranscriptionOptions,
+  requestId: string,
+  startTime: number
+): Response {
+  const requestLogger = createChildLogger({
+    requestId,
+    clientId: options.clientId,
+  });
+  c.header("X-Request-Id", requestId);
+
+  return streamSSE(c, async (stream) => {
+    // Progress callbacks are synchronous, so writes are queued in order
+    let eventId = 0;
+    let writes = Promise.resolve();
+    const send = (event: string, data: Record<string, any>) => {
+      const id = String(eventId++);
+      writes = writes
+        .then(() => stream.writeSSE({ event, data: JSON.stringify(data), id }))
+        .catch(() => {
+          // The client went away; keep transcribing so cleanup still runs
+        });
+    };
+
+    stream.onAbort(() => {
+      requestLogger.info("Client closed the progress stream");
+    });
+
+    try {
+      const { size } = await stat(upload.filePath);
+      send("upload_received", {
+        requestId,
+        filename: upload.filename,
+        sizeBytes: size,
+      });
+
+      const response = await runTranscription(
+        upload.filePath,
+        options,
+        requestId,
+        startTime,
+        ({ type, ...data }) => send(type, data)
+      );
+      send("completed", response);
+    } catch (error) {
+      requestLogger.error(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+        "Transcription error"
+      );
+      await refundAudioAllowance(options, requestLogger);
+      send("failed", buildErrorResponse(error, { requestId }));
+    } finally {
+      await removeTempFile(upload.filePath, requestLogger);
+      await writes;
+    }
+  });
+}
+
+/**
+ * Build the error body returned to clients (and sent to callback URLs).
+ * Typed errors report their own message and code; anything else is an
+ * internal_error with the fallback message and the original as details.
+ * @param ids - Request or job ID fields to include
+ */
+function buildErrorResponse(
+  error: unknown,
+  ids: Record<string, string>,
+  fallbackMessage: string = "Failed to transcribe audio"
+): Record<string, any> {
+  if (error instanceof ApiError) {
+    const body: Record<string, any> = {
+      error: error.message,
+      code: error.code,
+      ...ids,
+    };
+    if (error.retryAfterSeconds !== undefined) {
+      body.retryAfterSeconds = error.retryAfterSeconds;
+    }
+    return body;
+  }
+
+  return {
+    error: fallbackMessage,
+    code: "internal_error",
+    details: error instanceof Error ? error.message : "Unknown error",
+    ...ids,
+  };
+}
+
+/**
+ * Respond with the error body, the error's HTTP status (500 for untyped
+ * errors) and a Retry-After header when the error has one
+ */
+function sendError(
+  c: Context,
+  error: unknown,
+  ids: Record<string, string>,
+  fallbackMessage?: string
+): Response {
+  const body = buildErrorResponse(error, ids, fallbackMessage);
+  if (!(error instanceof ApiError)) {
+    return c.json(body, 500);
+  }
+
+  if (error.retryAfterSeconds !== undefined) {
+    c.header("Retry-After", String(error.retryAfterSeconds));
+  }
+  return c.json(body, error.status as ContentfulStatusCode);
+}
+
+/**
+ * Transcribe in the background and POST the outcome to the callback URL
+ */
+async function runWithCallback(
+  filePath: string,
+  options: TranscriptionOptions,
+  requestId: string,
+  startTime: number
+): Promise<void> {
+  const requestLogger = createChildLogger({
+    requestId,
+    clientId: options.clientId,
+  });
+  let payload: Record<string, any>;
+
+  try {
+    payload = await runTranscription(filePath, options, requestId, startTime);
+  } catch (error) {
+    requestLogger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Transcription error"
+    );
+    await refundAudioAllowance(options, requestLogger);
+    payload = buildErrorResponse(error, { requestId });
+  } finally {
+    await removeTempFile(filePath, requestLogger);
+  }
+
+  await webhookService.deliver(
+    options.callbackUrl!,
+    payload,
+    requestId,
+    options.clientId
+  );
+}
+
+/**
+ * Process a queued job and record its outcome in the job store
+ */
+async function runJob(
+  jobId: string,
+  filePath: string,
+  options: TranscriptionOptions
+): Promise<void> {
+  const jobLogger = createChildLogger({ jobId, clientId: options.clientId });
+
+  try {
+    await jobStore.update(jobId, {
+      status: "processing",
+      startedAt: new Date().toISOString(),
+    });
+
+    const result = await runTranscription(filePath, options, jobId);
+
+    await jobStore.update(jobId, {
+      status: "completed",
+      completedAt: new Date().toISOString(),
+      result,
+    });
+    jobLogger.info("Job completed");
+
+    if (options.callbackUrl) {
+      await webhookService.deliver(
+        options.callbackUrl,
+        result,
+        jobId,
+        options.clientId
+      );
+    }
+  } catch (error) {
+    jobLogger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Job failed"
+    );
+    await refundAudioAllowance(options, jobLogger);
+
+    await jobStore
+      .update(jobId, {
+        status: "failed",
+        completedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : "Unknown error",
+        errorCode: error instanceof ApiError ? error.code : "internal_error",
+      })
+      .catch((storeError) => {
+        jobLogger.error(
+          { error: storeError.message },
+          "Failed to record job failure"
+        );
+      });
+
+    if (options.callbackUrl) {
+      await webhookService.deliver(
+        options.callbackUrl,
+        buildErrorResponse(error, { requestId: jobId }),
+        jobId,
+        options.clientId
+      );
+    }
+  } finally {
+    await removeTempFile(filePath, jobLogger);
+  }
+}
+
+/**
+ * Delete a temporary upload, logging (not throwing) on failure
+ */
+async function removeTempFile(
+  tempFilePath: string | null,
+  log: ReturnType<typeof createChildLogger>
+): Promise<void> {
+  if (!tempFilePath) {
+    return;
+  }
+
+  try {
+    await unlink(tempFilePath);
+    log.debug({ tempFilePath }, "Temporary file cleaned up");
+  } catch (cleanupError) {
+    log.warn(
+      {
+        error:
+          cleanupError instanceof Error
+            ? cleanupError.message
+            : "Unknown error",
+        tempFilePath,
+      },
+      "Failed to clean up temporary file"
+    );
+  }
+}
+
+/**
+ * Public view of an enrolled speaker (the reference audio stays server-side)
+ */
+function describeSpeaker(speaker: EnrolledSpeaker): Record<string, any> {
+  return {
+    id: speaker.id,
+    name: speaker.name,
+    clipCount: speaker.clipCount,
+    referenceDurationSeconds: speaker.referenceDurationSeconds,
+    createdAt: speaker.createdAt,
+  };
+}
+
+/**
+ * Admin view of a client API key (the key and its hash stay server-side)
+ */
+function describeClient(client: ApiClient): Record<string, any> {
+  return {
+    id: client.id,
+    name: client.name,
+    keyPrefix: client.keyPrefix,
+    limits: client.limits,
+    usage: {
+      month: client.usage.month,
+      audioMinutes:
+        Math.round((apiKeyStore.getMonthlyAudioSeconds(client) / 60) * 100) /
+        100,
+    },
+    createdAt: client.createdAt,
+    revokedAt: client.revokedAt,
+  };
+}
+
+/**
+ * The client that authenticated the request, if API keys are required
+ */
+function getClient(c: Context): ApiClient | undefined {
+  return c.get("client");
+}
+
+/**
+ * Run work after the response has been sent. Shutdown waits for it, and
+ * the client's concurrency slot stays taken until it settles.
+ */
+function runInBackground(c: Context, work: Promise<void>): void {
+  c.set("backgroundWork", inFlight.track(work));
+}
+
+/**
+ * Whether a stored job, speaker or webhook delivery belongs to a client.
+ * Without API keys there is only one tenant, so everything is shared.
+ */
+function isOwnedBy(
+  ownerId: string | undefined,
+  clientId: string | undefined
+): boolean {
+  return !requireApiKey || ownerId === clientId;
+}
+
+/**
+ * Read the key from an `Authorization: Bearer <key>` header
+ */
+function getBearerToken(c: Context): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(c.req.header("authorization") || "");
+  return match?.[1];
+}
+
+/**
+ * Whether the request carries the admin key
+ */
+function isAdminRequest(c: Context): boolean {
+  const adminKey = config.auth.adminApiKey;
+  const key = getBearerToken(c);
+  return !!adminKey && !!key && safeEqual(key, adminKey);
+}
+
+/**
+ * Compare secrets in constant time. Hashing first gives equal lengths.
+ */
+function safeEqual(a: string, b: string): boolean {
+  return timingSafeEqual(
+    createHash("sha256").update(a).digest(),
+    createHash("sha256").update(b).digest()
+  );
+}
+
+/**
+ * Split a comma-separated query value such as `?speakers=a,b`
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  const items = (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Interpret a query flag such as `?diarize=true`
+ */
+function isTruthyFlag(value: string | undefined): boolean {
+  return value === "true" || value === "1" || value === "yes";
+}
+
+/**
+ * Generate a unique, prefixed identifier (e.g. req-1712345678901-abcde)
+ */
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random()
+    .toString(36)
+    .substring(2, 7)}`;
+}
+
+const { port, host } = config.server;
+logger.info(
+  {
+    port,
+    host,
+    defaultProvider: transcriptionService.getDefaultProviderName(),
+    defaultModel: transcriptionService.getModelName({}),
+  },
+  "Server starting"
+);
+
+const server = serve({
+  fetch: app.fetch,
+  port,
+  hostname: host,
+}) as Server;
+
+/**
+ * Stop accepting requests, give in-flight transcriptions until the deadline
+ * to finish, then remove this instance's temporary files and exit. A second
+ * signal exits right away.
+ */
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  if (inFlight.isDraining) {
+    logger.warn({ signal }, "Second signal received, exiting immediately");
+    process.exit(1);
+  }
+
+  const timeoutSeconds = config.server.shutdownTimeoutSeconds;
+  logger.info(
+    { signal, inFlight: inFlight.size, timeoutSeconds },
+    "Shutting down, waiting for in-flight work"
+  );
+  server.close();
+  tempSweeper.stop();
+
+  const drained = await inFlight.drain(timeoutSeconds * 1000);
+  if (!drained) {
+    logger.warn(
+      { inFlight: inFlight.size },
+      "Shutdown deadline passed, abandoning in-flight work"
+    );
+    abandonWork.abort();
+    server.closeAllConnections();
+    await jobStore
+      .failUnfinished("Job interrupted by server shutdown")
+      .catch((error) => {
+        logger.error(
+          { error: error instanceof Error ? error.message : "Unknown error" },
+          "Failed to record interrupted jobs"
+        );
+      });
+  }
+
+  await tempSweeper.removeWorkDir();
+  logger.info({ drained }, "Shutdown complete");
+  process.exit(drained ? 0 : 1);
+}
+
+process.on("SIGTERM", (signal) => void shutdown(signal));
+process.on("SIGINT", (signal) => void shutdown(signal));
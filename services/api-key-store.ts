@@ -0,0 +1,238 @@
+import { createHash, randomBytes } from "crypto";
+import { readFile, writeFile, rename, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { createChildLogger } from "../utils/logger.js";
+
+/**
+ * Limits applied to each API key
+ */
+export interface ClientLimits {
+  requestsPerMinute: number; // 0 for no limit
+  maxConcurrent: number; // Requests in progress at once; 0 for no limit
+  monthlyAudioMinutes: number; // Audio accepted per calendar month (UTC); 0 for no limit
+}
+
+/**
+ * A client API key. Only the SHA-256 of the key is stored; the key itself is
+ * shown once, when it is created.
+ */
+export interface ApiClient {
+  id: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string; // First characters of the key, to tell keys apart
+  limits: ClientLimits;
+  usage: { month: string; audioSeconds: number }; // Current month only
+  createdAt: string;
+  revokedAt?: string;
+}
+
+const KEY_PREFIX = "sk_";
+
+/**
+ * SHA-256 of an API key. Keys are random, so an unsalted hash is enough.
+ */
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Calendar month (UTC) that audio usage is counted in, e.g. "2024-01"
+ */
+export function currentUsageMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Persistent store for client API keys backed by a JSON file, kept in
+ * memory and rewritten on every change like the job store.
+ */
+export class ApiKeyStore {
+  private clients = new Map<string, ApiClient>();
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private storeLogger = createChildLogger({ service: "ApiKeyStore" });
+
+  constructor(
+    private filePath: string = join(process.cwd(), "data", "api-keys.json")
+  ) {}
+
+  /**
+   * Loads API keys from disk
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDisk();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const raw = await readFile(this.filePath, "utf-8");
+      const clients = JSON.parse(raw) as ApiClient[];
+      for (const client of clients) {
+        this.clients.set(client.id, client);
+      }
+      this.storeLogger.info(
+        { clientCount: clients.length, filePath: this.filePath },
+        "Loaded API keys"
+      );
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw new Error(
+          `Failed to load API key store from ${this.filePath}: ${error.message}`
+        );
+      }
+      this.storeLogger.info(
+        { filePath: this.filePath },
+        "No existing API key store, starting empty"
+      );
+    }
+  }
+
+  /**
+   * Creates a client with a new random key
+   * @returns The stored client and the key, which can't be recovered later
+   */
+  async create(
+    id: string,
+    name: string,
+    limits: ClientLimits
+  ): Promise<{ client: ApiClient; key: string }> {
+    await this.load();
+
+    const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const client: ApiClient = {
+      id,
+      name,
+      keyHash: hashApiKey(key),
+      keyPrefix: key.slice(0, KEY_PREFIX.length + 6),
+      limits,
+      usage: { month: currentUsageMonth(), audioSeconds: 0 },
+      createdAt: new Date().toISOString(),
+    };
+    this.clients.set(id, client);
+    await this.persist();
+    return { client, key };
+  }
+
+  /**
+   * Returns the active (not revoked) client a key belongs to
+   */
+  async findByKey(key: string): Promise<ApiClient | undefined> {
+    await this.load();
+    const keyHash = hashApiKey(key);
+    return [...this.clients.values()].find(
+      (client) => client.keyHash === keyHash && !client.revokedAt
+    );
+  }
+
+  /**
+   * Returns a client by ID, revoked or not
+   */
+  async get(id: string): Promise<ApiClient | undefined> {
+    await this.load();
+    return this.clients.get(id);
+  }
+
+  /**
+   * Returns all clients, oldest first
+   */
+  async list(): Promise<ApiClient[]> {
+    await this.load();
+    return [...this.clients.values()];
+  }
+
+  /**
+   * Revokes a key. The client is kept so its usage can still be reported.
+   * @returns The revoked client, or undefined if it does not exist
+   */
+  async revoke(id: string): Promise<ApiClient | undefined> {
+    await this.load();
+
+    const client = this.clients.get(id);
+    if (!client) {
+      return undefined;
+    }
+    if (!client.revokedAt) {
+      client.revokedAt = new Date().toISOString();
+      await this.persist();
+    }
+    return client;
+  }
+
+  /**
+   * Audio seconds a client has used this month
+   */
+  getMonthlyAudioSeconds(client: ApiClient): number {
+    return client.usage.month === currentUsageMonth()
+      ? client.usage.audioSeconds
+      : 0;
+  }
+
+  /**
+   * Counts audio against a client's allowance for this month, starting a
+   * new count when the month has changed. Checking and counting happen in
+   * one step, so concurrent requests can't overshoot the allowance.
+   * @returns False, without counting the audio, if it would exceed the
+   * allowance
+   */
+  async chargeAudio(id: string, audioSeconds: number): Promise<boolean> {
+    await this.load();
+
+    const client = this.clients.get(id);
+    if (!client) {
+      return false;
+    }
+    const month = currentUsageMonth();
+    if (client.usage.month !== month) {
+      client.usage = { month, audioSeconds: 0 };
+    }
+
+    const allowanceSeconds = client.limits.monthlyAudioMinutes * 60;
+    if (
+      allowanceSeconds > 0 &&
+      client.usage.audioSeconds + audioSeconds > allowanceSeconds
+    ) {
+      return false;
+    }
+    client.usage.audioSeconds += audioSeconds;
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Gives back audio counted by chargeAudio, e.g. when the transcription
+   * failed. Audio charged in an earlier month is not given back.
+   */
+  async refundAudio(id: string, audioSeconds: number): Promise<void> {
+    await this.load();
+
+    const client = this.clients.get(id);
+    if (!client || client.usage.month !== currentUsageMonth()) {
+      return;
+    }
+    client.usage.audioSeconds = Math.max(
+      0,
+      client.usage.audioSeconds - audioSeconds
+    );
+    await this.persist();
+  }
+
+  /**
+   * Writes all clients to disk through a temporary file, serialized
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.clients.values()], null, 2);
+    const write = async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, snapshot, "utf-8");
+      await rename(tempPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,70 @@
+import type { ClientLimits } from "./api-key-store.js";
+
+/**
+ * Why a request was refused, and when it is worth retrying
+ */
+export interface ClientLimitRejection {
+  reason: "requests_per_minute" | "concurrency";
+  retryAfterSeconds: number;
+}
+
+/**
+ * In-memory per-client request limits: requests started per rolling minute
+ * and requests in progress at once. Counts start over when the server
+ * restarts; monthly audio allowances are persisted in the API key store.
+ */
+export class ClientLimiter {
+  private startTimes = new Map<string, number[]>();
+  private active = new Map<string, number>();
+
+  /**
+   * Start a request for a client if its limits allow it. Every successful
+   * call must be followed by one call to release().
+   * @returns Null if the request may proceed, otherwise why not
+   */
+  tryAcquire(
+    clientId: string,
+    limits: Pick<ClientLimits, "requestsPerMinute" | "maxConcurrent">
+  ): ClientLimitRejection | null {
+    const now = Date.now();
+    const recent = (this.startTimes.get(clientId) || []).filter(
+      (time) => time > now - 60000
+    );
+
+    if (
+      limits.requestsPerMinute > 0 &&
+      recent.length >= limits.requestsPerMinute
+    ) {
+      this.startTimes.set(clientId, recent);
+      return {
+        reason: "requests_per_minute",
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((recent[0] + 60000 - now) / 1000)
+        ),
+      };
+    }
+
+    const active = this.active.get(clientId) || 0;
+    if (limits.maxConcurrent > 0 && active >= limits.maxConcurrent) {
+      return { reason: "concurrency", retryAfterSeconds: 1 };
+    }
+
+    recent.push(now);
+    this.startTimes.set(clientId, recent);
+    this.active.set(clientId, active + 1);
+    return null;
+  }
+
+  /**
+   * Mark one of a client's requests as finished
+   */
+  release(clientId: string): void {
+    const active = (this.active.get(clientId) || 1) - 1;
+    if (active > 0) {
+      this.active.set(clientId, active);
+    } else {
+      this.active.delete(clientId);
+    }
+  }
+}
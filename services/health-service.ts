@@ -0,0 +1,258 @@
+import { readFileSync } from "fs";
+import { statfs, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { AppConfig, loadConfig } from "../utils/config.js";
+import { createChildLogger } from "../utils/logger.js";
+import { MediaTool, getToolVersion } from "../utils/media.js";
+import { classifyProviderError } from "./providers/index.js";
+import type { TranscriptionService } from "./transcription-service.js";
+
+/**
+ * Whether an ffmpeg tool runs, and which version it is
+ */
+export interface BinaryCheck {
+  ok: boolean;
+  version?: string;
+  error?: string;
+}
+
+/**
+ * Whether temporary audio files can be written, and how much room is left
+ */
+export interface TempDirCheck {
+  ok: boolean;
+  path: string;
+  freeBytes?: number;
+  minFreeBytes: number;
+  error?: string;
+}
+
+/**
+ * Outcome of the last reachability probe of a provider
+ */
+export interface ProviderCheck {
+  ok: boolean;
+  default: boolean; // Only the default provider decides readiness
+  latencyMs?: number;
+  checkedAt: string;
+  error?: string;
+}
+
+type ProbeResult = Omit<ProviderCheck, "default">;
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: {
+    ffmpeg: BinaryCheck;
+    ffprobe: BinaryCheck;
+    tempDir: TempDirCheck;
+    providers: Record<string, ProviderCheck>;
+  };
+}
+
+/**
+ * A readiness report reduced to whether each check passed
+ */
+export interface ReadinessSummary {
+  ffmpeg: { ok: boolean };
+  ffprobe: { ok: boolean };
+  tempDir: { ok: boolean };
+  providers: Record<string, { ok: boolean; default: boolean }>;
+}
+
+export interface HealthCheckOptions {
+  minFreeTempBytes: number; // Not ready with less free space in the temp dir
+  providerCheckTtlMs: number; // How long a provider probe result is reused
+  tempDir: string; // Directory that must be writable
+}
+
+/**
+ * Readiness thresholds from the application config
+ * @param tempDir - Directory for temporary audio files (defaults to the configured temp directory)
+ */
+export function loadHealthCheckOptions(
+  config: AppConfig = loadConfig(),
+  tempDir: string = config.tempDir
+): HealthCheckOptions {
+  return {
+    minFreeTempBytes: config.health.minFreeTempMb * 1024 * 1024,
+    providerCheckTtlMs: config.health.providerCheckTtlSeconds * 1000,
+    tempDir,
+  };
+}
+
+/**
+ * Whether each check of a report passed, without the paths, versions and
+ * error messages that only operators should see
+ */
+export function summarizeReadiness(report: ReadinessReport): ReadinessSummary {
+  const { ffmpeg, ffprobe, tempDir, providers } = report.checks;
+  const summary: ReadinessSummary = {
+    ffmpeg: { ok: ffmpeg.ok },
+    ffprobe: { ok: ffprobe.ok },
+    tempDir: { ok: tempDir.ok },
+    providers: {},
+  };
+  for (const [name, check] of Object.entries(providers)) {
+    summary.providers[name] = { ok: check.ok, default: check.default };
+  }
+  return summary;
+}
+
+/**
+ * Version of this API, from package.json
+ */
+export function readAppVersion(): string {
+  try {
+    const packageJson = JSON.parse(
+      readFileSync(new URL("../package.json", import.meta.url), "utf-8")
+    );
+    return packageJson.version || "unknown";
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * Readiness checks for GET /readyz: ffmpeg and ffprobe, the temp directory,
+ * and the providers. Provider probes go over the network, so their results
+ * are cached for a while and concurrent checks share one probe.
+ */
+export class HealthService {
+  private providerChecks = new Map<
+    string,
+    { result: Promise<ProbeResult>; expiresAt: number }
+  >();
+  private lastReady: boolean | null = null;
+  private serviceLogger = createChildLogger({ service: "HealthService" });
+
+  constructor(
+    private transcriptionService: TranscriptionService,
+    private options: HealthCheckOptions = loadHealthCheckOptions()
+  ) {}
+
+  /**
+   * Run every check. Ready when ffmpeg, ffprobe, the temp directory and the
+   * default provider are all fine; other providers are only reported.
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const defaultProvider = this.transcriptionService.getDefaultProviderName();
+    const providerNames = this.transcriptionService.getProviderNames();
+
+    const [ffmpeg, ffprobe, tempDir, ...providerResults] = await Promise.all([
+      this.checkBinary("ffmpeg"),
+      this.checkBinary("ffprobe"),
+      this.checkTempDir(),
+      ...providerNames.map((name) => this.checkProvider(name)),
+    ]);
+
+    const providers: Record<string, ProviderCheck> = {};
+    providerNames.forEach((name, i) => {
+      providers[name] = {
+        ...providerResults[i],
+        default: name === defaultProvider,
+      };
+    });
+
+    const ready =
+      ffmpeg.ok && ffprobe.ok && tempDir.ok && !!providers[defaultProvider]?.ok;
+    const report = { ready, checks: { ffmpeg, ffprobe, tempDir, providers } };
+
+    // Log changes only, since orchestrators check every few seconds
+    if (ready !== this.lastReady) {
+      if (ready) {
+        this.serviceLogger.info("Service is ready");
+      } else {
+        this.serviceLogger.warn(
+          { checks: report.checks },
+          "Service is not ready"
+        );
+      }
+      this.lastReady = ready;
+    }
+
+    return report;
+  }
+
+  private async checkBinary(name: MediaTool): Promise<BinaryCheck> {
+    try {
+      const version = await getToolVersion(name, { timeoutMs: 5000 });
+      return { ok: true, version };
+    } catch (error) {
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  private async checkTempDir(): Promise<TempDirCheck> {
+    const path = this.options.tempDir;
+    const minFreeBytes = this.options.minFreeTempBytes;
+
+    try {
+      const probePath = join(path, `transcribe-readyz-${process.pid}.tmp`);
+      await writeFile(probePath, "ok");
+      await unlink(probePath);
+
+      const stats = await statfs(path);
+      const freeBytes = stats.bavail * stats.bsize;
+      if (freeBytes < minFreeBytes) {
+        return {
+          ok: false,
+          path,
+          freeBytes,
+          minFreeBytes,
+          error: `Only ${Math.floor(
+            freeBytes / (1024 * 1024)
+          )}MB free in the temp directory`,
+        };
+      }
+      return { ok: true, path, freeBytes, minFreeBytes };
+    } catch (error) {
+      return {
+        ok: false,
+        path,
+        minFreeBytes,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * The cached probe result for a provider, probing again once it expires
+   */
+  private checkProvider(name: string): Promise<ProbeResult> {
+    const cached = this.providerChecks.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const result = this.probeProvider(name);
+    this.providerChecks.set(name, {
+      result,
+      expiresAt: Date.now() + this.options.providerCheckTtlMs,
+    });
+    return result;
+  }
+
+  private async probeProvider(name: string): Promise<ProbeResult> {
+    const startTime = Date.now();
+    try {
+      await this.transcriptionService.getProvider(name).ping();
+      return {
+        ok: true,
+        latencyMs: Date.now() - startTime,
+        checkedAt: new Date().toISOString(),
+      };
+    } catch (rawError) {
+      const error = classifyProviderError(rawError, name);
+      return {
+        ok: false,
+        latencyMs: Date.now() - startTime,
+        checkedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Keeps track of requests and background transcriptions still running, so
+ * shutdown can wait for them to finish
+ */
+export class InFlightTracker {
+  private tasks = new Set<Promise<unknown>>();
+  private draining = false;
+
+  /**
+   * Whether drain() has been called; no new work should be accepted
+   */
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Number of tasks still running
+   */
+  get size(): number {
+    return this.tasks.size;
+  }
+
+  /**
+   * Track a task until it settles
+   * @returns The same task, for chaining
+   */
+  track<T>(task: Promise<T>): Promise<T> {
+    const tracked = task.then(
+      () => undefined,
+      () => undefined
+    );
+    this.tasks.add(tracked);
+    void tracked.then(() => this.tasks.delete(tracked));
+    return task;
+  }
+
+  /**
+   * Stop accepting work and wait for every task to finish, including tasks
+   * that running ones start along the way (e.g. a webhook delivery)
+   * @param timeoutMs - Give up waiting after this long
+   * @returns True if everything finished, false if the deadline passed first
+   */
+  async drain(timeoutMs: number): Promise<boolean> {
+    this.draining = true;
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    try {
+      while (this.tasks.size > 0) {
+        const finished = await Promise.race([
+          Promise.all([...this.tasks]).then(() => true),
+          deadline,
+        ]);
+        if (!finished) {
+          return false;
+        }
+      }
+      return true;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Runs queued jobs in submission order, at most maxConcurrent at a time.
+ * Jobs wait in memory, so a restart loses the queue; the job store marks
+ * such jobs as failed when it loads.
+ */
+export class JobRunner {
+  private queue: Array<() => void> = [];
+  private active = 0;
+
+  /**
+   * @param maxConcurrent - Jobs processed at once; 0 for no limit
+   */
+  constructor(private maxConcurrent: number) {}
+
+  /**
+   * Number of jobs waiting for a free slot
+   */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of jobs being processed
+   */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Start a job once a slot is free
+   * @param job - Started when its turn comes, not before
+   * @returns Settles with the job
+   */
+  run(job: () => Promise<void>): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.queue.push(() => {
+        this.active++;
+        job()
+          .then(resolve, reject)
+          .finally(() => {
+            this.active--;
+            this.startNext();
+          });
+      });
+      this.startNext();
+    });
+  }
+
+  private startNext(): void {
+    while (
+      this.queue.length > 0 &&
+      (this.maxConcurrent === 0 || this.active < this.maxConcurrent)
+    ) {
+      this.queue.shift()!();
+    }
+  }
+}
@@ -0,0 +1,217 @@
+import { readFile, writeFile, rename, mkdir, unlink } from "fs/promises";
+import { dirname, join } from "path";
+import { createChildLogger } from "../utils/logger.js";
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed";
+
+/**
+ * A transcription job as persisted in the job store
+ */
+export interface TranscriptionJob {
+  id: string;
+  status: JobStatus;
+  filename: string;
+  filePath: string;
+  options: Record<string, any>;
+  clientId?: string; // API key client that submitted the job
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  result?: Record<string, any>;
+  error?: string;
+  errorCode?: string; // Machine-readable code of the failure, see utils/errors
+}
+
+/**
+ * Persistent store for asynchronous transcription jobs backed by a JSON file.
+ *
+ * All jobs are kept in memory and the whole file is rewritten on every change,
+ * which is plenty for the volume of jobs a single instance handles. Finished
+ * jobs are purged once they are older than the retention period, so the file
+ * doesn't grow without bound.
+ */
+export class JobStore {
+  private jobs = new Map<string, TranscriptionJob>();
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private storeLogger = createChildLogger({ service: "JobStore" });
+
+  /**
+   * @param retentionMs - How long finished jobs are kept; 0 keeps them
+   */
+  constructor(
+    private filePath: string = join(process.cwd(), "data", "jobs.json"),
+    private retentionMs = 0
+  ) {}
+
+  /**
+   * Loads jobs from disk. Jobs that were still queued or processing when the
+   * previous process stopped are marked as failed, since their work is lost.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDisk();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const raw = await readFile(this.filePath, "utf-8");
+      const jobs = JSON.parse(raw) as TranscriptionJob[];
+      for (const job of jobs) {
+        this.jobs.set(job.id, job);
+      }
+      this.storeLogger.info(
+        { jobCount: jobs.length, filePath: this.filePath },
+        "Loaded jobs from store"
+      );
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw new Error(
+          `Failed to load job store from ${this.filePath}: ${error.message}`
+        );
+      }
+      this.storeLogger.info(
+        { filePath: this.filePath },
+        "No existing job store, starting empty"
+      );
+    }
+
+    await this.failUnfinished("Job interrupted by server restart");
+    if (this.purgeExpired() > 0) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Marks every queued or processing job as failed and removes its upload,
+   * for work that will never finish (e.g. on shutdown)
+   * @returns Number of jobs marked as failed
+   */
+  async failUnfinished(reason: string): Promise<number> {
+    const now = new Date().toISOString();
+    let interruptedCount = 0;
+    for (const job of this.jobs.values()) {
+      if (job.status === "queued" || job.status === "processing") {
+        job.status = "failed";
+        job.error = reason;
+        job.errorCode = "internal_error";
+        job.updatedAt = now;
+        job.completedAt = now;
+        interruptedCount++;
+        await unlink(job.filePath).catch(() => {});
+      }
+    }
+
+    if (interruptedCount > 0) {
+      this.storeLogger.warn(
+        { interruptedCount },
+        "Marked interrupted jobs as failed"
+      );
+      await this.persist();
+    }
+    return interruptedCount;
+  }
+
+  /**
+   * Creates a new queued job
+   */
+  async create(
+    job: Pick<
+      TranscriptionJob,
+      "id" | "filename" | "filePath" | "options" | "clientId"
+    >
+  ): Promise<TranscriptionJob> {
+    await this.load();
+
+    const now = new Date().toISOString();
+    const created: TranscriptionJob = {
+      ...job,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(created.id, created);
+    this.purgeExpired();
+    await this.persist();
+    return created;
+  }
+
+  /**
+   * Applies a partial update to an existing job
+   * @returns The updated job, or undefined if the job does not exist
+   */
+  async update(
+    id: string,
+    changes: Partial<Omit<TranscriptionJob, "id" | "createdAt">>
+  ): Promise<TranscriptionJob | undefined> {
+    await this.load();
+
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    await this.persist();
+    return job;
+  }
+
+  /**
+   * Returns a job by ID
+   */
+  async get(id: string): Promise<TranscriptionJob | undefined> {
+    await this.load();
+    const job = this.jobs.get(id);
+    // Purged from the file with the next write
+    return job && !this.isExpired(job, Date.now()) ? job : undefined;
+  }
+
+  /**
+   * Removes finished jobs past the retention period from memory; the caller
+   * persists the change
+   * @returns Number of jobs removed
+   */
+  private purgeExpired(): number {
+    const now = Date.now();
+    let purgedCount = 0;
+    for (const [id, job] of this.jobs) {
+      if (this.isExpired(job, now)) {
+        this.jobs.delete(id);
+        purgedCount++;
+      }
+    }
+
+    if (purgedCount > 0) {
+      this.storeLogger.info({ purgedCount }, "Purged expired jobs");
+    }
+    return purgedCount;
+  }
+
+  private isExpired(job: TranscriptionJob, now: number): boolean {
+    return (
+      this.retentionMs > 0 &&
+      !!job.completedAt &&
+      Date.parse(job.completedAt) <= now - this.retentionMs
+    );
+  }
+
+  /**
+   * Writes all jobs to disk. Writes are serialized and go through a temporary
+   * file so a crash mid-write never leaves a truncated store behind.
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.jobs.values()], null, 2);
+    const write = async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, snapshot, "utf-8");
+      await rename(tempPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,125 @@
+import OpenAI from "openai";
+import { createChildLogger } from "../../utils/logger.js";
+import type { TranscriptionResult } from "../transcription-service.js";
+import type {
+  ProviderAudioRequest,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderModelOptions,
+  TranscriptionProvider,
+} from "./transcription-provider.js";
+
+export type FaultType = "rate_limit" | "corrupted_file" | "timeout" | "auth";
+
+export const FAULT_TYPES: FaultType[] = [
+  "rate_limit",
+  "corrupted_file",
+  "timeout",
+  "auth",
+];
+
+export interface FaultInjectionOptions {
+  fault: FaultType;
+  rate?: number; // Probability (0-1) that a call fails, default 1
+  delayMs?: number; // Delay before a simulated timeout fires
+}
+
+/**
+ * Provider decorator that fails calls with the same errors the OpenAI SDK
+ * throws, so error handling can be exercised without a live API.
+ */
+export class FaultInjectionProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  private rate: number;
+  private delayMs: number;
+  private providerLogger: ReturnType<typeof createChildLogger>;
+
+  constructor(
+    private inner: TranscriptionProvider,
+    private options: FaultInjectionOptions
+  ) {
+    this.name = inner.name;
+    this.capabilities = inner.capabilities;
+    this.rate = options.rate ?? 1;
+    this.delayMs = options.delayMs ?? 0;
+    this.providerLogger = createChildLogger({
+      service: "FaultInjectionProvider",
+      provider: inner.name,
+      fault: options.fault,
+    });
+  }
+
+  getModelName(options: ProviderModelOptions): string {
+    return this.inner.getModelName(options);
+  }
+
+  async transcribe(
+    request: ProviderAudioRequest
+  ): Promise<TranscriptionResult> {
+    await this.maybeFail("transcribe");
+    return this.inner.transcribe(request);
+  }
+
+  async translate(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    await this.maybeFail("translate");
+    return this.inner.translate(request);
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    await this.maybeFail("chat");
+    return this.inner.chat(request);
+  }
+
+  /**
+   * Faults are only injected into audio and chat calls
+   */
+  ping(): Promise<void> {
+    return this.inner.ping();
+  }
+
+  /**
+   * Throw the configured fault with probability `rate`
+   */
+  private async maybeFail(operation: string): Promise<void> {
+    if (Math.random() >= this.rate) {
+      return;
+    }
+
+    this.providerLogger.warn({ operation }, "Injecting provider fault");
+
+    switch (this.options.fault) {
+      case "rate_limit":
+        throw new OpenAI.RateLimitError(
+          429,
+          { message: "Rate limit reached for requests", type: "requests" },
+          undefined,
+          { "retry-after": "1" }
+        );
+      case "corrupted_file":
+        throw new OpenAI.BadRequestError(
+          400,
+          {
+            message: "Audio file might be corrupted or unsupported",
+            type: "invalid_request_error",
+          },
+          undefined,
+          {}
+        );
+      case "auth":
+        throw new OpenAI.AuthenticationError(
+          401,
+          {
+            message: "Incorrect API key provided",
+            type: "invalid_request_error",
+          },
+          undefined,
+          {}
+        );
+      case "timeout":
+        await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+        throw new OpenAI.APIConnectionTimeoutError();
+    }
+  }
+}
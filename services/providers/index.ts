@@ -0,0 +1,113 @@
+import { OpenAIProvider } from "./openai-provider.js";
+import { LocalWhisperProvider } from "./local-whisper-provider.js";
+import { RecordReplayProvider } from "./record-replay-provider.js";
+import { FaultInjectionProvider } from "./fault-injection-provider.js";
+import { RateLimitedProvider } from "./rate-limited-provider.js";
+import { InstrumentedProvider } from "./instrumented-provider.js";
+import type { TranscriptionProvider } from "./transcription-provider.js";
+import { AppConfig, loadConfig } from "../../utils/config.js";
+
+export type {
+  KnownSpeaker,
+  ProviderChatResult,
+  ProviderTokenUsage,
+  TranscriptionProvider,
+} from "./transcription-provider.js";
+export { OpenAIProvider } from "./openai-provider.js";
+export { LocalWhisperProvider } from "./local-whisper-provider.js";
+export { RecordReplayProvider } from "./record-replay-provider.js";
+export { FaultInjectionProvider } from "./fault-injection-provider.js";
+export { RateLimitedProvider } from "./rate-limited-provider.js";
+export { InstrumentedProvider } from "./instrumented-provider.js";
+export {
+  classifyProviderError,
+  providerErrorFromStatus,
+} from "./provider-errors.js";
+
+/**
+ * Build the providers configured in the application config, with its model
+ * names:
+ * - "openai" when providers.openai.apiKey is set (or always, in replay mode)
+ * - "local" when providers.local.url is set
+ *
+ * Record/replay, fault injection and the upstream limits from the config
+ * wrap every provider, see applyProviderModes.
+ */
+export function createProviders(
+  config: AppConfig = loadConfig()
+): Record<string, TranscriptionProvider> {
+  const providers: Record<string, TranscriptionProvider> = {};
+  const { openai, local } = config.providers;
+
+  // Replayed calls never reach OpenAI, so no real key is needed
+  const openaiKey =
+    openai.apiKey ||
+    (config.providerTesting.mode === "replay" ? "replay-mode" : undefined);
+  if (openaiKey) {
+    providers.openai = new OpenAIProvider(
+      openaiKey,
+      config.models.openai,
+      openai.baseUrl
+    );
+  }
+
+  if (local.url) {
+    providers.local = new LocalWhisperProvider({
+      baseUrl: local.url,
+      api: local.api,
+      model: config.models.local,
+      chatUrl: local.chatUrl,
+      chatModel: local.chatModel,
+    });
+  }
+
+  for (const name of Object.keys(providers)) {
+    providers[name] = applyProviderModes(providers[name], config);
+  }
+
+  return providers;
+}
+
+/**
+ * Wrap a provider according to the config:
+ * - providerTesting.mode "record" or "replay": record responses to, or
+ *   answer from, fixtures in providerTesting.fixturesDir
+ * - providerTesting.fault: fail calls with a simulated provider error
+ * - upstream: limits on calls across requests, and retries
+ *
+ * The limiter is outermost, so injected faults are retried like real ones.
+ * Inside it, every attempt is timed for GET /metrics.
+ */
+function applyProviderModes(
+  provider: TranscriptionProvider,
+  config: AppConfig
+): TranscriptionProvider {
+  const { providerTesting, upstream } = config;
+  let wrapped = provider;
+
+  if (providerTesting.mode !== "live") {
+    wrapped = new RecordReplayProvider(
+      wrapped,
+      providerTesting.mode,
+      providerTesting.fixturesDir
+    );
+  }
+
+  if (providerTesting.fault) {
+    wrapped = new FaultInjectionProvider(wrapped, {
+      fault: providerTesting.fault,
+      rate: providerTesting.faultRate,
+      delayMs: providerTesting.faultDelayMs,
+    });
+  }
+
+  wrapped = new InstrumentedProvider(wrapped);
+
+  return new RateLimitedProvider(wrapped, {
+    maxConcurrent: upstream.maxConcurrent,
+    requestsPerMinute: upstream.requestsPerMinute,
+    maxRetries: upstream.maxRetries,
+    baseDelayMs: upstream.retryBaseMs,
+    maxDelayMs: upstream.retryMaxMs,
+  });
+}
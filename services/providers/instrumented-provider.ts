@@ -0,0 +1,71 @@
+import { ApiError } from "../../utils/errors.js";
+import {
+  providerErrorsTotal,
+  providerRequestSeconds,
+} from "../../utils/metrics.js";
+import type { TranscriptionResult } from "../transcription-service.js";
+import { classifyProviderError } from "./provider-errors.js";
+import type {
+  ProviderAudioRequest,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderModelOptions,
+  TranscriptionProvider,
+} from "./transcription-provider.js";
+
+/**
+ * Provider decorator that records the latency of every call and counts
+ * failures by error code for GET /metrics. It sits inside the rate limiter,
+ * so each retry is measured on its own and queueing time is left out.
+ */
+export class InstrumentedProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+
+  constructor(private inner: TranscriptionProvider) {
+    this.name = inner.name;
+    this.capabilities = inner.capabilities;
+  }
+
+  getModelName(options: ProviderModelOptions): string {
+    return this.inner.getModelName(options);
+  }
+
+  transcribe(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    return this.measure("transcribe", () => this.inner.transcribe(request));
+  }
+
+  translate(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    return this.measure("translate", () => this.inner.translate(request));
+  }
+
+  chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    return this.measure("chat", () => this.inner.chat(request));
+  }
+
+  ping(): Promise<void> {
+    return this.inner.ping();
+  }
+
+  private async measure<T>(
+    operation: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const labels = { provider: this.name, operation };
+    const stopTimer = providerRequestSeconds.startTimer(labels);
+    try {
+      const result = await fn();
+      stopTimer({ outcome: "success" });
+      return result;
+    } catch (rawError) {
+      stopTimer({ outcome: "error" });
+      const error = classifyProviderError(rawError, this.name);
+      providerErrorsTotal.inc({
+        ...labels,
+        type: error instanceof ApiError ? error.code : "internal_error",
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { toLanguageCode } from "../../utils/languages.js";
+import type { TranscriptionResult } from "../transcription-service.js";
+import type {
+  ProviderAudioRequest,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderModelOptions,
+  TranscriptionProvider,
+} from "./transcription-provider.js";
+import { providerErrorFromStatus } from "./provider-errors.js";
+
+/**
+ * HTTP dialect spoken by the local server:
+ * - "whisper.cpp": whisper.cpp's bundled server (`POST /inference`)
+ * - "openai": OpenAI-compatible servers such as faster-whisper-server/speaches
+ *   (`POST /v1/audio/transcriptions` and `/v1/audio/translations`)
+ */
+export type LocalWhisperApi = "whisper.cpp" | "openai";
+
+export interface LocalWhisperProviderOptions {
+  baseUrl: string;
+  api?: LocalWhisperApi;
+  model?: string;
+  chatUrl?: string; // OpenAI-compatible chat server (llama.cpp, Ollama, vLLM...)
+  chatModel?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Transcription provider that calls a self-hosted Whisper server, so audio
+ * never leaves the network. Text generation is only available when an
+ * OpenAI-compatible chat server is configured as well.
+ */
+export class LocalWhisperProvider implements TranscriptionProvider {
+  readonly name = "local";
+  readonly capabilities: ProviderCapabilities;
+  private baseUrl: string;
+  private api: LocalWhisperApi;
+  private model: string;
+  private chatUrl?: string;
+  private chatModel?: string;
+  private timeoutMs: number;
+
+  constructor(options: LocalWhisperProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.api = options.api || "openai";
+    this.model = options.model || "whisper-1";
+    this.chatUrl = options.chatUrl?.replace(/\/+$/, "");
+    this.chatModel = options.chatModel;
+    this.timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+    this.capabilities = {
+      diarization: false,
+      translation: true,
+      chat: !!this.chatUrl,
+    };
+  }
+
+  /**
+   * Local servers load a single model, whatever the accuracy flags say
+   */
+  getModelName(_options: ProviderModelOptions): string {
+    return this.model;
+  }
+
+  transcribe(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    return this.requestAudio(request, false);
+  }
+
+  translate(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    return this.requestAudio(request, true);
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    if (!this.chatUrl) {
+      throw new Error(
+        "Text generation is not available with the local provider. Set LOCAL_CHAT_URL to an OpenAI-compatible chat server."
+      );
+    }
+
+    const model = this.chatModel || request.model;
+    const response = await fetch(`${this.chatUrl}/v1/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    const data = await this.readJson(response, "Local chat server");
+
+    return {
+      text: data.choices?.[0]?.message?.content?.trim() || "",
+      model,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Any HTTP response from the server counts, since whisper.cpp and
+   * OpenAI-compatible servers serve different routes
+   */
+  async ping(): Promise<void> {
+    const response = await fetch(this.baseUrl, {
+      signal: AbortSignal.timeout(10000),
+    });
+    await response.body?.cancel();
+    if (response.status >= 500) {
+      throw new Error(`Local Whisper server returned HTTP ${response.status}`);
+    }
+  }
+
+  /**
+   * POST audio to the local server and normalize the JSON response
+   */
+  private async requestAudio(
+    request: ProviderAudioRequest,
+    translate: boolean
+  ): Promise<TranscriptionResult> {
+    const form = new FormData();
+    form.append("file", request.file);
+    // verbose_json also reports the spoken language, so it is requested
+    // even when segments aren't needed
+    form.append("response_format", "verbose_json");
+    if (request.language && !translate) {
+      form.append("language", request.language);
+    }
+    if (request.prompt) {
+      form.append("prompt", request.prompt);
+    }
+    if (request.temperature !== undefined) {
+      form.append("temperature", String(request.temperature));
+    }
+
+    let url: string;
+    if (this.api === "whisper.cpp") {
+      url = `${this.baseUrl}/inference`;
+      if (translate) {
+        form.append("translate", "true");
+      }
+    } else {
+      url = `${this.baseUrl}/v1/audio/${
+        translate ? "translations" : "transcriptions"
+      }`;
+      form.append("model", request.model);
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      body: form,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    const data = await this.readJson(response, "Local Whisper server");
+
+    return {
+      text: (data.text || "").trim(),
+      // Servers report the spoken language with verbose_json only
+      language: translate ? undefined : toLanguageCode(data.language),
+      segments: request.timestamps
+        ? (data.segments || []).map((segment: any, i: number) => ({
+            id: typeof segment.id === "number" ? segment.id : i,
+            start: Number(segment.start),
+            end: Number(segment.end),
+            text: String(segment.text || "").trim(),
+          }))
+        : undefined,
+    };
+  }
+
+  /**
+   * Parse a JSON response, turning HTTP errors into exceptions
+   */
+  private async readJson(response: Response, serverName: string): Promise<any> {
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw providerErrorFromStatus(
+        this.name,
+        response.status,
+        `${serverName}: ${body.slice(0, 200)}`,
+        response.headers.get("retry-after")
+      );
+    }
+    return response.json();
+  }
+}
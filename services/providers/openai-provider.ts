@@ -0,0 +1,214 @@
+import OpenAI from "openai";
+import { DEFAULT_OPENAI_MODELS, OpenAIModels } from "../../utils/config.js";
+import { toLanguageCode } from "../../utils/languages.js";
+import type { TranscriptionResult } from "../transcription-service.js";
+import type {
+  ProviderAudioRequest,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderModelOptions,
+  TranscriptionProvider,
+} from "./transcription-provider.js";
+
+/**
+ * Response body for `response_format: "diarized_json"`, which the SDK's
+ * types don't cover yet
+ */
+interface DiarizedTranscription {
+  text: string;
+  segments?: Array<{
+    speaker: string;
+    start: number;
+    end: number;
+    text: string;
+  }>;
+}
+
+/**
+ * Transcription provider backed by OpenAI's hosted audio and chat APIs
+ */
+export class OpenAIProvider implements TranscriptionProvider {
+  readonly name = "openai";
+  readonly capabilities: ProviderCapabilities = {
+    diarization: true,
+    translation: true,
+    chat: true,
+  };
+  private openai: OpenAI;
+
+  /**
+   * @param baseUrl - API base URL (defaults to OpenAI's)
+   */
+  constructor(
+    apiKey: string | undefined,
+    private models: OpenAIModels = DEFAULT_OPENAI_MODELS,
+    baseUrl: string = "https://api.openai.com/v1"
+  ) {
+    if (!apiKey) {
+      throw new Error(
+        "OPENAI_API_KEY environment variable is required. Please set it in your .env file or environment."
+      );
+    }
+
+    // Retries are left to RateLimitedProvider, which spaces them out across
+    // all requests
+    this.openai = new OpenAI({
+      apiKey: apiKey,
+      baseURL: baseUrl,
+      maxRetries: 0,
+    });
+  }
+
+  /**
+   * Priority: diarize > timestamps/translation (only whisper-1 supports them) > high accuracy > default
+   * Model names for each mode come from the application config
+   */
+  getModelName(options: ProviderModelOptions): string {
+    if (options.useDiarize) {
+      return this.models.diarize;
+    }
+    if (options.timestamps || options.translate) {
+      return this.models.timestamps;
+    }
+    if (options.useHighAccuracy) {
+      return this.models.accurate;
+    }
+    return this.models.default;
+  }
+
+  async transcribe(
+    request: ProviderAudioRequest
+  ): Promise<TranscriptionResult> {
+    if (request.diarize) {
+      // The diarization model requires a chunking strategy for audio over 30s
+      const params: Record<string, any> = {
+        file: request.file,
+        model: request.model,
+        language: request.language,
+        response_format: "diarized_json",
+        chunking_strategy: "auto",
+      };
+      if (request.knownSpeakers?.length) {
+        params.known_speaker_names = request.knownSpeakers.map((s) => s.name);
+        params.known_speaker_references = request.knownSpeakers.map(
+          (s) => s.reference
+        );
+      }
+      const transcription = (await this.openai.audio.transcriptions.create(
+        params as any
+      )) as unknown as DiarizedTranscription;
+
+      return {
+        text: transcription.text.trim(),
+        segments: (transcription.segments || []).map((segment, i) => ({
+          id: i,
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim(),
+          speaker: segment.speaker,
+        })),
+      };
+    }
+
+    // verbose_json is the only format that reports the spoken language, and
+    // only whisper models support it
+    if (request.timestamps || supportsVerboseJson(request.model)) {
+      const transcription = await this.openai.audio.transcriptions.create({
+        file: request.file,
+        model: request.model,
+        language: request.language,
+        prompt: request.prompt,
+        temperature: request.temperature,
+        response_format: "verbose_json",
+        timestamp_granularities: ["segment"],
+      });
+
+      return {
+        text: transcription.text.trim(),
+        language: toLanguageCode(transcription.language),
+        segments: request.timestamps
+          ? (transcription.segments || []).map((segment) => ({
+              id: segment.id,
+              start: segment.start,
+              end: segment.end,
+              text: segment.text.trim(),
+            }))
+          : undefined,
+      };
+    }
+
+    const transcription = await this.openai.audio.transcriptions.create({
+      file: request.file,
+      model: request.model,
+      language: request.language, // Optional: specify language or let it auto-detect
+      prompt: request.prompt,
+      temperature: request.temperature,
+      response_format: "text", // Get plain text response
+    });
+
+    // The response is a string when response_format is "text"
+    const text =
+      typeof transcription === "string"
+        ? transcription
+        : (transcription as any).text || "";
+
+    return { text: text.trim() };
+  }
+
+  async translate(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    // The translations endpoint has no language parameter: output is English
+    const translation = (await this.openai.audio.translations.create({
+      file: request.file,
+      model: request.model,
+      prompt: request.prompt,
+      temperature: request.temperature,
+      response_format: "verbose_json",
+    })) as OpenAI.Audio.TranslationVerbose;
+
+    return {
+      text: translation.text.trim(),
+      segments: request.timestamps
+        ? (translation.segments || []).map((segment) => ({
+            id: segment.id,
+            start: segment.start,
+            end: segment.end,
+            text: segment.text.trim(),
+          }))
+        : undefined,
+    };
+  }
+
+  /**
+   * Listing models is free and checks the API key as well as the network
+   */
+  async ping(): Promise<void> {
+    await this.openai.models.list({ timeout: 10000 });
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const completion = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+    });
+
+    return {
+      text: completion.choices[0]?.message?.content?.trim() || "",
+      model: request.model,
+      usage: completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+          }
+        : undefined,
+    };
+  }
+}
+
+/**
+ * Whether a transcription model can answer with verbose_json; the
+ * gpt-4o transcription models only return text and json
+ */
+function supportsVerboseJson(model: string): boolean {
+  return model.startsWith("whisper-");
+}
@@ -0,0 +1,112 @@
+import OpenAI from "openai";
+import {
+  ApiError,
+  UnsupportedMediaError,
+  UpstreamAuthError,
+  UpstreamError,
+  UpstreamRateLimitError,
+  UpstreamTimeoutError,
+} from "../../utils/errors.js";
+
+/**
+ * Turn an HTTP error status from a provider into a typed error
+ * @param retryAfter - Value of the Retry-After header, if any
+ */
+export function providerErrorFromStatus(
+  providerName: string,
+  status: number,
+  message: string,
+  retryAfter?: string | null
+): ApiError {
+  if (status === 429) {
+    return new UpstreamRateLimitError(
+      `The ${providerName} provider is rate limiting requests. Please try again later.`,
+      parseRetryAfter(retryAfter)
+    );
+  }
+  if (status === 401 || status === 403) {
+    return new UpstreamAuthError(
+      `The ${providerName} provider rejected the server's credentials. Check its API key.`
+    );
+  }
+  if (status === 408 || status === 504) {
+    return new UpstreamTimeoutError(`The ${providerName} provider timed out`);
+  }
+  if (
+    (status === 400 || status === 415) &&
+    /file|corrupt|unsupported|format|decode/i.test(message)
+  ) {
+    return new UnsupportedMediaError(
+      `The ${providerName} provider could not read the audio: ${message}`
+    );
+  }
+  return new UpstreamError(
+    `The ${providerName} provider returned HTTP ${status}: ${message}`,
+    status
+  );
+}
+
+/**
+ * Classify an error thrown by a provider call. OpenAI SDK errors (which the
+ * fault injection provider throws too) and fetch timeouts become typed
+ * errors; anything else is returned unchanged.
+ */
+export function classifyProviderError(
+  error: unknown,
+  providerName: string
+): unknown {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  // Checked before APIConnectionError, which it extends
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new UpstreamTimeoutError(`The ${providerName} provider timed out`);
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new UpstreamError(
+      `Could not reach the ${providerName} provider: ${error.message}`
+    );
+  }
+  if (error instanceof OpenAI.APIError && error.status) {
+    const headers = error.headers || {};
+    return providerErrorFromStatus(
+      providerName,
+      error.status,
+      error.message,
+      headers["retry-after"]
+    );
+  }
+
+  // AbortSignal.timeout() and connection failures in fetch-based providers
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return new UpstreamTimeoutError(`The ${providerName} provider timed out`);
+  }
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    const cause = (error as { cause?: Error }).cause;
+    return new UpstreamError(
+      `Could not reach the ${providerName} provider: ${
+        cause?.message || error.message
+      }`
+    );
+  }
+
+  return error;
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+  return undefined;
+}
@@ -0,0 +1,194 @@
+import { createChildLogger } from "../../utils/logger.js";
+import {
+  UpstreamError,
+  UpstreamRateLimitError,
+  UpstreamTimeoutError,
+} from "../../utils/errors.js";
+import type { TranscriptionResult } from "../transcription-service.js";
+import { classifyProviderError } from "./provider-errors.js";
+import type {
+  ProviderAudioRequest,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderModelOptions,
+  TranscriptionProvider,
+} from "./transcription-provider.js";
+
+export interface RateLimitOptions {
+  maxConcurrent: number; // Calls in flight at once, across all requests
+  requestsPerMinute: number; // Calls started per rolling minute; 0 for no limit
+  maxRetries: number; // Retries of a transient failure before giving up
+  baseDelayMs: number; // Backoff before the first retry, doubled for each next one
+  maxDelayMs: number; // Longest wait before a retry, Retry-After included
+}
+
+/**
+ * Provider decorator that shares one limit on concurrent calls and calls
+ * per minute between all requests, and retries transient failures (rate
+ * limits, timeouts, connection errors and 5xx responses) with exponential
+ * backoff and jitter. Each call is retried on its own, so a failed chunk
+ * doesn't restart the whole file.
+ *
+ * A rate limit response pauses every caller until its Retry-After has
+ * passed, rather than letting queued calls run into the same limit.
+ */
+export class RateLimitedProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private startTimes: number[] = [];
+  private pausedUntil = 0;
+  private providerLogger: ReturnType<typeof createChildLogger>;
+
+  constructor(
+    private inner: TranscriptionProvider,
+    private options: RateLimitOptions
+  ) {
+    this.name = inner.name;
+    this.capabilities = inner.capabilities;
+    this.providerLogger = createChildLogger({
+      service: "RateLimitedProvider",
+      provider: inner.name,
+    });
+  }
+
+  getModelName(options: ProviderModelOptions): string {
+    return this.inner.getModelName(options);
+  }
+
+  transcribe(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    return this.call("transcribe", () => this.inner.transcribe(request));
+  }
+
+  translate(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    return this.call("translate", () => this.inner.translate(request));
+  }
+
+  chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    return this.call("chat", () => this.inner.chat(request));
+  }
+
+  /**
+   * Not limited or retried, so a check reports the provider as it is now
+   */
+  ping(): Promise<void> {
+    return this.inner.ping();
+  }
+
+  /**
+   * Run a call within the limits, retrying transient failures
+   */
+  private async call<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      let error: unknown;
+      try {
+        return await fn();
+      } catch (rawError) {
+        error = classifyProviderError(rawError, this.name);
+      } finally {
+        this.release();
+      }
+
+      const delayMs = this.retryDelay(error, attempt);
+      if (delayMs === null) {
+        throw error;
+      }
+      if (error instanceof UpstreamRateLimitError) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+      }
+      this.providerLogger.warn(
+        {
+          operation,
+          attempt: attempt + 1,
+          delayMs,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+        "Provider call failed, retrying"
+      );
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * How long to wait before retrying, or null if the error isn't transient
+   * or the retries are used up
+   */
+  private retryDelay(error: unknown, attempt: number): number | null {
+    const transient =
+      error instanceof UpstreamRateLimitError ||
+      error instanceof UpstreamTimeoutError ||
+      (error instanceof UpstreamError &&
+        (error.upstreamStatus === undefined || error.upstreamStatus >= 500));
+    if (!transient || attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    // Honour Retry-After when the provider sends one, unless it's too long
+    // to be worth holding the request open
+    if (
+      error instanceof UpstreamRateLimitError &&
+      error.retryAfterSeconds !== undefined
+    ) {
+      const delayMs = error.retryAfterSeconds * 1000;
+      return delayMs <= this.options.maxDelayMs
+        ? Math.round(delayMs + Math.random() * 250)
+        : null;
+    }
+
+    // Random jitter, so retries from parallel chunks don't line up
+    const backoff = Math.min(
+      this.options.maxDelayMs,
+      this.options.baseDelayMs * 2 ** attempt
+    );
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+
+  /**
+   * Wait for a free slot, the per-minute budget and any rate limit pause
+   */
+  private async acquire(): Promise<void> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+    } else {
+      // release() hands its slot straight to the next waiter
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    for (;;) {
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      const { requestsPerMinute } = this.options;
+      this.startTimes = this.startTimes.filter((time) => time > now - 60000);
+      if (
+        requestsPerMinute > 0 &&
+        this.startTimes.length >= requestsPerMinute
+      ) {
+        await sleep(this.startTimes[0] + 60000 - now);
+        continue;
+      }
+
+      this.startTimes.push(now);
+      return;
+    }
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
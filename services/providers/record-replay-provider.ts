@@ -0,0 +1,172 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { join } from "path";
+import { createChildLogger } from "../../utils/logger.js";
+import type { TranscriptionResult } from "../transcription-service.js";
+import type {
+  ProviderAudioRequest,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderModelOptions,
+  TranscriptionProvider,
+} from "./transcription-provider.js";
+
+/**
+ * - "record": call the wrapped provider and save every response as a fixture
+ * - "replay": answer from fixtures only, never touching the network
+ */
+export type RecordReplayMode = "record" | "replay";
+
+/**
+ * Fixture file contents. `request` is kept for humans inspecting fixtures;
+ * lookups only use the key in the file name.
+ */
+interface Fixture {
+  key: string;
+  operation: string;
+  request: Record<string, any>;
+  response: any;
+  recordedAt: string;
+}
+
+/**
+ * Provider decorator that records responses to fixture files and replays
+ * them, for deterministic offline runs of the server and test scripts.
+ *
+ * Fixtures are keyed by provider, operation, model, a SHA-256 of the audio
+ * bytes and the remaining request options, so the same audio sent with the
+ * same options always maps to the same file.
+ */
+export class RecordReplayProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+  private providerLogger: ReturnType<typeof createChildLogger>;
+
+  constructor(
+    private inner: TranscriptionProvider,
+    private mode: RecordReplayMode,
+    private fixturesDir: string
+  ) {
+    this.name = inner.name;
+    this.capabilities = inner.capabilities;
+    this.providerLogger = createChildLogger({
+      service: "RecordReplayProvider",
+      provider: inner.name,
+      mode,
+    });
+  }
+
+  getModelName(options: ProviderModelOptions): string {
+    return this.inner.getModelName(options);
+  }
+
+  async transcribe(
+    request: ProviderAudioRequest
+  ): Promise<TranscriptionResult> {
+    return this.withFixture(
+      "transcribe",
+      await this.describeAudioRequest(request),
+      () => this.inner.transcribe(request)
+    );
+  }
+
+  async translate(request: ProviderAudioRequest): Promise<TranscriptionResult> {
+    return this.withFixture(
+      "translate",
+      await this.describeAudioRequest(request),
+      () => this.inner.translate(request)
+    );
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const result = await this.withFixture<ProviderChatResult | string>(
+      "chat",
+      { model: request.model, messages: request.messages },
+      () => this.inner.chat(request)
+    );
+    // Fixtures recorded before token usage was reported hold only the text
+    return typeof result === "string"
+      ? { text: result, model: request.model }
+      : result;
+  }
+
+  /**
+   * Replayed runs never touch the network, so there is nothing to reach
+   */
+  async ping(): Promise<void> {
+    if (this.mode === "record") {
+      await this.inner.ping();
+    }
+  }
+
+  /**
+   * Replay the fixture for a request, or call through and record it
+   */
+  private async withFixture<T>(
+    operation: string,
+    request: Record<string, any>,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const key = createHash("sha256")
+      .update(JSON.stringify({ provider: this.name, operation, ...request }))
+      .digest("hex");
+    const fixturePath = join(this.fixturesDir, `${operation}-${key}.json`);
+
+    if (this.mode === "replay") {
+      let raw: string;
+      try {
+        raw = await readFile(fixturePath, "utf-8");
+      } catch (error: any) {
+        if (error.code === "ENOENT") {
+          throw new Error(
+            `No recorded fixture for ${operation} (${fixturePath}). Run once with PROVIDER_MODE=record to create it.`
+          );
+        }
+        throw error;
+      }
+      this.providerLogger.debug(
+        { operation, fixturePath },
+        "Replaying fixture"
+      );
+      return (JSON.parse(raw) as Fixture).response as T;
+    }
+
+    const response = await call();
+    const fixture: Fixture = {
+      key,
+      operation,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    await mkdir(this.fixturesDir, { recursive: true });
+    await writeFile(fixturePath, JSON.stringify(fixture, null, 2), "utf-8");
+    this.providerLogger.info({ operation, fixturePath }, "Recorded fixture");
+    return response;
+  }
+
+  /**
+   * Everything that affects an audio response, with the audio itself hashed
+   */
+  private async describeAudioRequest(
+    request: ProviderAudioRequest
+  ): Promise<Record<string, any>> {
+    const audio = Buffer.from(await request.file.arrayBuffer());
+    return {
+      model: request.model,
+      audioSha256: createHash("sha256").update(audio).digest("hex"),
+      language: request.language ?? null,
+      prompt: request.prompt ?? null,
+      temperature: request.temperature ?? null,
+      timestamps: !!request.timestamps,
+      diarize: !!request.diarize,
+      knownSpeakers: (request.knownSpeakers || []).map((speaker) => ({
+        name: speaker.name,
+        referenceSha256: createHash("sha256")
+          .update(speaker.reference)
+          .digest("hex"),
+      })),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import type { TranscriptionResult } from "../transcription-service.js";
+
+/**
+ * A speaker the diarization model should recognize by name
+ */
+export interface KnownSpeaker {
+  name: string; // Label returned for this speaker's segments
+  reference: string; // Data URL of a 2-10s audio clip of the speaker alone
+}
+
+/**
+ * Audio sent to a provider for transcription or translation
+ */
+export interface ProviderAudioRequest {
+  file: File;
+  model: string;
+  language?: string;
+  prompt?: string; // Context prompt to improve accuracy
+  temperature?: number;
+  timestamps?: boolean; // Return timed segments
+  diarize?: boolean; // Return speaker-labelled segments
+  knownSpeakers?: KnownSpeaker[]; // Reference clips for diarization
+}
+
+export interface ProviderChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ProviderChatRequest {
+  model: string;
+  messages: ProviderChatMessage[];
+}
+
+/**
+ * Tokens billed for a chat completion
+ */
+export interface ProviderTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ProviderChatResult {
+  text: string; // The assistant's reply
+  model: string; // Model that answered, which may differ from the one requested
+  usage?: ProviderTokenUsage; // Absent when the server doesn't report it
+}
+
+/**
+ * Model-selection flags a provider maps to one of its own models
+ */
+export interface ProviderModelOptions {
+  useDiarize?: boolean;
+  useHighAccuracy?: boolean;
+  timestamps?: boolean;
+  translate?: boolean;
+}
+
+/**
+ * What a provider can do beyond plain transcription
+ */
+export interface ProviderCapabilities {
+  diarization: boolean;
+  translation: boolean;
+  chat: boolean;
+}
+
+/**
+ * A backend that turns audio into text and generates text from transcripts
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+
+  /**
+   * Resolve the model this provider uses for a set of options
+   */
+  getModelName(options: ProviderModelOptions): string;
+
+  /**
+   * Transcribe audio in its spoken language
+   */
+  transcribe(request: ProviderAudioRequest): Promise<TranscriptionResult>;
+
+  /**
+   * Transcribe audio and translate it into English
+   */
+  translate(request: ProviderAudioRequest): Promise<TranscriptionResult>;
+
+  /**
+   * Run a chat completion and return the assistant's reply
+   */
+  chat(request: ProviderChatRequest): Promise<ProviderChatResult>;
+
+  /**
+   * Check that the provider can be reached, for readiness checks
+   * @throws If it can't
+   */
+  ping(): Promise<void>;
+}
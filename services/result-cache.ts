@@ -0,0 +1,216 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import { readFile, writeFile, rename, mkdir } from "fs/promises";
+import { dirname } from "path";
+import { pipeline } from "stream/promises";
+import { AppConfig, loadConfig } from "../utils/config.js";
+import { createChildLogger } from "../utils/logger.js";
+import type { TranscriptionResult } from "./transcription-service.js";
+
+/**
+ * A provider transcript cached for identical audio and options
+ */
+interface CacheEntry {
+  key: string;
+  result: TranscriptionResult;
+  sizeBytes: number; // Serialized size, counted against the size cap
+  createdAt: string;
+  expiresAt: string;
+  lastUsedAt: string;
+}
+
+export interface ResultCacheOptions {
+  filePath: string;
+  ttlMs: number; // 0 disables the cache
+  maxBytes: number;
+}
+
+/**
+ * Cache settings from the application config
+ */
+export function loadResultCacheOptions(
+  config: AppConfig = loadConfig()
+): ResultCacheOptions {
+  return {
+    filePath: config.resultCache.path,
+    ttlMs: config.resultCache.ttlHours * 60 * 60 * 1000,
+    maxBytes: config.resultCache.maxMb * 1024 * 1024,
+  };
+}
+
+/**
+ * SHA-256 of a file's contents, streamed so large uploads aren't read into
+ * memory
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest("hex");
+}
+
+/**
+ * Cache of provider transcripts keyed by audio hash and options, backed by a
+ * JSON file like the job store. Entries expire after the TTL, and the least
+ * recently used ones are evicted once the cache grows past its size cap.
+ */
+export class ResultCache {
+  private entries = new Map<string, CacheEntry>();
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private storeLogger = createChildLogger({ service: "ResultCache" });
+
+  constructor(private options: ResultCacheOptions = loadResultCacheOptions()) {}
+
+  /**
+   * Whether results are cached at all (a TTL above 0)
+   */
+  get enabled(): boolean {
+    return this.options.ttlMs > 0;
+  }
+
+  /**
+   * Build a cache key from the audio hash and everything else that changes
+   * the transcript
+   */
+  static key(audioSha256: string, options: Record<string, unknown>): string {
+    return createHash("sha256")
+      .update(JSON.stringify({ audioSha256, ...options }))
+      .digest("hex");
+  }
+
+  /**
+   * Loads cached results from disk. A cache that can't be read is discarded
+   * rather than stopping the server.
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDisk();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      const raw = await readFile(this.options.filePath, "utf-8");
+      const entries = JSON.parse(raw) as CacheEntry[];
+      const now = Date.now();
+      for (const entry of entries) {
+        if (Date.parse(entry.expiresAt) > now) {
+          this.entries.set(entry.key, entry);
+        }
+      }
+      this.storeLogger.info(
+        { entryCount: this.entries.size, filePath: this.options.filePath },
+        "Loaded result cache"
+      );
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        this.storeLogger.info(
+          { filePath: this.options.filePath },
+          "No existing result cache, starting empty"
+        );
+      } else {
+        this.storeLogger.warn(
+          { error: error.message, filePath: this.options.filePath },
+          "Could not read result cache, starting empty"
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the cached result for a key, if present and not expired
+   */
+  async get(key: string): Promise<TranscriptionResult | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Recency only matters for eviction, so it's saved with the next write
+    entry.lastUsedAt = new Date().toISOString();
+    return entry.result;
+  }
+
+  /**
+   * Caches a result, evicting expired and least recently used entries to
+   * stay under the size cap
+   */
+  async set(key: string, result: TranscriptionResult): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    await this.load();
+
+    const sizeBytes = Buffer.byteLength(JSON.stringify(result));
+    if (sizeBytes > this.options.maxBytes) {
+      this.storeLogger.warn(
+        { sizeBytes, maxBytes: this.options.maxBytes },
+        "Result larger than the whole cache, not caching"
+      );
+      return;
+    }
+
+    const now = new Date();
+    this.entries.set(key, {
+      key,
+      result,
+      sizeBytes,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.options.ttlMs).toISOString(),
+      lastUsedAt: now.toISOString(),
+    });
+    this.evict();
+    await this.persist();
+  }
+
+  private evict(): void {
+    const now = Date.now();
+    let totalBytes = 0;
+    for (const [key, entry] of this.entries) {
+      if (Date.parse(entry.expiresAt) <= now) {
+        this.entries.delete(key);
+      } else {
+        totalBytes += entry.sizeBytes;
+      }
+    }
+
+    const byLastUse = [...this.entries.values()].sort((a, b) =>
+      a.lastUsedAt.localeCompare(b.lastUsedAt)
+    );
+    for (const entry of byLastUse) {
+      if (totalBytes <= this.options.maxBytes) break;
+      this.entries.delete(entry.key);
+      totalBytes -= entry.sizeBytes;
+    }
+  }
+
+  /**
+   * Writes all entries to disk through a temporary file, serialized
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.entries.values()]);
+    const write = async () => {
+      await mkdir(dirname(this.options.filePath), { recursive: true });
+      const tempPath = `${this.options.filePath}.tmp`;
+      await writeFile(tempPath, snapshot, "utf-8");
+      await rename(tempPath, this.options.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
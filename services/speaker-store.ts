@@ -0,0 +1,147 @@
+import { readFile, writeFile, rename, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { createChildLogger } from "../utils/logger.js";
+
+/**
+ * A known speaker enrolled for named diarization
+ */
+export interface EnrolledSpeaker {
+  id: string;
+  name: string;
+  reference: string; // Data URL of the combined reference clip (WAV)
+  referenceDurationSeconds: number;
+  clipCount: number;
+  clientId?: string; // API key client that enrolled the speaker
+  createdAt: string;
+}
+
+/**
+ * Persistent store for enrolled speakers backed by a JSON file, kept in
+ * memory and rewritten on every change like the job store.
+ */
+export class SpeakerStore {
+  private speakers = new Map<string, EnrolledSpeaker>();
+  private loadPromise: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private storeLogger = createChildLogger({ service: "SpeakerStore" });
+
+  constructor(
+    private filePath: string = join(process.cwd(), "data", "speakers.json")
+  ) {}
+
+  /**
+   * Loads enrolled speakers from disk
+   */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromDisk();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const raw = await readFile(this.filePath, "utf-8");
+      const speakers = JSON.parse(raw) as EnrolledSpeaker[];
+      for (const speaker of speakers) {
+        this.speakers.set(speaker.id, speaker);
+      }
+      this.storeLogger.info(
+        { speakerCount: speakers.length, filePath: this.filePath },
+        "Loaded enrolled speakers"
+      );
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        throw new Error(
+          `Failed to load speaker store from ${this.filePath}: ${error.message}`
+        );
+      }
+      this.storeLogger.info(
+        { filePath: this.filePath },
+        "No existing speaker store, starting empty"
+      );
+    }
+  }
+
+  /**
+   * Enrolls a new speaker
+   */
+  async create(
+    speaker: Omit<EnrolledSpeaker, "createdAt">
+  ): Promise<EnrolledSpeaker> {
+    await this.load();
+
+    const created: EnrolledSpeaker = {
+      ...speaker,
+      createdAt: new Date().toISOString(),
+    };
+    this.speakers.set(created.id, created);
+    await this.persist();
+    return created;
+  }
+
+  /**
+   * Returns an enrolled speaker by ID
+   */
+  async get(id: string): Promise<EnrolledSpeaker | undefined> {
+    await this.load();
+    return this.speakers.get(id);
+  }
+
+  /**
+   * Returns a client's enrolled speaker by name, ignoring case
+   */
+  async findByName(
+    name: string,
+    clientId: string | undefined
+  ): Promise<EnrolledSpeaker | undefined> {
+    await this.load();
+    const wanted = name.toLowerCase();
+    return [...this.speakers.values()].find(
+      (speaker) =>
+        speaker.clientId === clientId && speaker.name.toLowerCase() === wanted
+    );
+  }
+
+  /**
+   * Returns enrolled speakers, oldest first
+   * @param clientId - Only return speakers this client enrolled
+   */
+  async list(clientId?: string): Promise<EnrolledSpeaker[]> {
+    await this.load();
+    const speakers = [...this.speakers.values()];
+    return clientId === undefined
+      ? speakers
+      : speakers.filter((speaker) => speaker.clientId === clientId);
+  }
+
+  /**
+   * Removes an enrolled speaker
+   * @returns False if the speaker does not exist
+   */
+  async delete(id: string): Promise<boolean> {
+    await this.load();
+
+    if (!this.speakers.delete(id)) {
+      return false;
+    }
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Writes all speakers to disk through a temporary file, serialized
+   */
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify([...this.speakers.values()], null, 2);
+    const write = async () => {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, snapshot, "utf-8");
+      await rename(tempPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
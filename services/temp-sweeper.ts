@@ -0,0 +1,191 @@
+import { randomBytes } from "crypto";
+import { mkdirSync, writeFileSync } from "fs";
+import { readdir, rm, stat, utimes } from "fs/promises";
+import { join } from "path";
+import { createChildLogger } from "../utils/logger.js";
+
+// Working directories are named transcribe-work-<pid>-<random>. The PID
+// only helps find the owner when debugging: instances in other containers
+// can share the temp directory, so it says nothing about liveness.
+const WORK_DIR_PREFIX = "transcribe-work-";
+
+// Touched by the owning instance while it runs, so other instances can tell
+// a live working directory from an orphaned one
+const HEARTBEAT_FILE = ".heartbeat";
+
+// Temporary files of versions that wrote straight into the temp directory
+const LEGACY_FILE_PREFIX = "transcribe-";
+
+export interface TempSweeperOptions {
+  maxAgeMs: number; // Files older than this are considered orphaned
+  intervalMs: number; // Time between sweeps
+}
+
+/**
+ * Owns this instance's working directory inside the temp directory, where
+ * uploads, downloads, conversions and chunks are written, and removes what
+ * crashed or killed processes left behind:
+ * - at startup and on every sweep, working directories whose heartbeat is
+ *   older than maxAge, and stray files older than maxAge from versions
+ *   without a working directory
+ * - periodically, files in this instance's own directory older than maxAge
+ */
+export class TempSweeper {
+  readonly workDir: string;
+  private timer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private sweeperLogger = createChildLogger({ service: "TempSweeper" });
+
+  /**
+   * Creates the working directory right away, so it can be handed to the
+   * upload and download options
+   * @param baseDir - Temp directory shared with other instances
+   */
+  constructor(private baseDir: string, private options: TempSweeperOptions) {
+    this.workDir = join(
+      baseDir,
+      `${WORK_DIR_PREFIX}${process.pid}-${randomBytes(4).toString("hex")}`
+    );
+    mkdirSync(this.workDir, { recursive: true });
+    writeFileSync(join(this.workDir, HEARTBEAT_FILE), "");
+  }
+
+  /**
+   * Sweep now, then every interval until stop() is called. The heartbeat is
+   * refreshed at least four times per maxAge, so a slow sweep interval can't
+   * make this instance's directory look orphaned to the others.
+   */
+  async start(): Promise<void> {
+    await this.sweep();
+    this.timer = setInterval(() => void this.sweep(), this.options.intervalMs);
+    this.heartbeatTimer = setInterval(
+      () => void this.touchHeartbeat(),
+      Math.min(this.options.intervalMs, this.options.maxAgeMs / 4)
+    );
+    // Don't keep the process alive just to sweep
+    this.timer.unref();
+    this.heartbeatTimer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Remove orphaned files and directories. Never throws; failures are logged.
+   * @returns Number of files and directories removed
+   */
+  async sweep(): Promise<number> {
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    let removed = 0;
+
+    try {
+      for (const name of await readdir(this.baseDir)) {
+        const path = join(this.baseDir, name);
+        if (path === this.workDir) {
+          removed += await this.removeOlderThan(path, cutoff);
+        } else if (name.startsWith(WORK_DIR_PREFIX)) {
+          if ((await lastHeartbeat(path)) < cutoff) {
+            await rm(path, { recursive: true, force: true });
+            removed++;
+          }
+        } else if (
+          name.startsWith(LEGACY_FILE_PREFIX) &&
+          (await lastModified(path)) < cutoff
+        ) {
+          await rm(path, { force: true });
+          removed++;
+        }
+      }
+    } catch (error) {
+      this.sweeperLogger.error(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+          baseDir: this.baseDir,
+        },
+        "Temp file sweep failed"
+      );
+      return removed;
+    }
+
+    if (removed > 0) {
+      this.sweeperLogger.info({ removed }, "Removed orphaned temp files");
+    }
+    return removed;
+  }
+
+  /**
+   * Delete the working directory and everything still in it, on shutdown
+   */
+  async removeWorkDir(): Promise<void> {
+    try {
+      await rm(this.workDir, { recursive: true, force: true });
+    } catch (error) {
+      this.sweeperLogger.warn(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+          workDir: this.workDir,
+        },
+        "Failed to remove working directory"
+      );
+    }
+  }
+
+  private async touchHeartbeat(): Promise<void> {
+    const now = new Date();
+    try {
+      await utimes(join(this.workDir, HEARTBEAT_FILE), now, now);
+    } catch (error) {
+      this.sweeperLogger.warn(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+          workDir: this.workDir,
+        },
+        "Failed to refresh working directory heartbeat"
+      );
+    }
+  }
+
+  private async removeOlderThan(dir: string, cutoff: number): Promise<number> {
+    let removed = 0;
+    for (const name of await readdir(dir)) {
+      if (name === HEARTBEAT_FILE) {
+        continue;
+      }
+      const path = join(dir, name);
+      if ((await lastModified(path)) < cutoff) {
+        await rm(path, { recursive: true, force: true });
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * When another instance last showed it was alive. Working directories of
+ * versions without a heartbeat fall back to the directory's own mtime, which
+ * changes whenever a file is added or removed.
+ */
+async function lastHeartbeat(workDir: string): Promise<number> {
+  const heartbeat = await lastModified(join(workDir, HEARTBEAT_FILE));
+  return heartbeat === Infinity ? lastModified(workDir) : heartbeat;
+}
+
+/**
+ * Modification time in ms, or Infinity if the file is already gone
+ */
+async function lastModified(path: string): Promise<number> {
+  try {
+    return (await stat(path)).mtimeMs;
+  } catch {
+    return Infinity;
+  }
+}
@@ -1,37 +1,148 @@
-import OpenAI from "openai";
 import { readFile, unlink, stat } from "fs/promises";
 import { basename, join, dirname } from "path";
-import { exec } from "child_process";
-import { promisify } from "util";
 import logger, { createChildLogger } from "../utils/logger.js";
+import {
+  ChunkPlan,
+  SilenceInterval,
+  planChunks,
+  removeOverlapDuplicate,
+} from "../utils/chunking.js";
+import * as media from "../utils/media.js";
+import { AudioProbe, MediaError, MediaRunOptions } from "../utils/media.js";
+import { renderSubtitles } from "../utils/subtitles.js";
+import {
+  chunkCount,
+  ffmpegSeconds,
+  uploadFormatTotal,
+} from "../utils/metrics.js";
+import { matchChunkSpeakers } from "../utils/diarization.js";
+import { AppConfig, loadConfig } from "../utils/config.js";
+import {
+  ApiError,
+  ConversionError,
+  UnsupportedMediaError,
+  ValidationError,
+} from "../utils/errors.js";
+import {
+  KnownSpeaker,
+  ProviderChatResult,
+  TranscriptionProvider,
+  classifyProviderError,
+  createProviders,
+} from "./providers/index.js";
+
+// Chunk splitting: look for a silence up to 30s before each target split point
+// (at most 20% of the chunk length); otherwise overlap chunks by 2s
+const SPLIT_SILENCE_TOLERANCE_SEC = 30;
+const CHUNK_OVERLAP_SEC = 2;
+const SILENCE_NOISE_THRESHOLD = "-35dB";
+const SILENCE_MIN_DURATION_SEC = 0.3;
+
+// Speaker reference clips carried between diarized chunks: the diarization
+// model accepts up to 4 known speakers, each with a 2-10s clip
+const MAX_KNOWN_SPEAKERS = 4;
+const MIN_REFERENCE_SEC = 2;
+const MAX_REFERENCE_SEC = 10;
+const REFERENCE_NAME_PREFIX = "speaker_";
 
-const execAsync = promisify(exec);
+/**
+ * A timed piece of transcript, in seconds from the start of the audio
+ */
+export interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string; // Speaker label, for diarized transcripts
+}
+
+/**
+ * Language reported for one chunk of a long recording
+ */
+export interface ChunkLanguage {
+  start: number;
+  end: number;
+  language: string | null; // null when the provider didn't report one
+}
+
+/**
+ * Structured transcription output
+ */
+export interface TranscriptionResult {
+  text: string;
+  segments?: TranscriptSegment[];
+  language?: string; // ISO-639-1 code, when the provider reports it
+  chunkLanguages?: ChunkLanguage[]; // Only when chunks disagree
+  chunkCount?: number; // Only for recordings split into chunks
+}
 
-// OpenAI Whisper API file size limit: 25MB
-const MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024; // 25MB
+/**
+ * Progress reported while a file is transcribed
+ */
+export type TranscriptionProgress =
+  | { type: "converting"; format: "wav" }
+  | { type: "chunking"; chunkCount: number; durationSeconds: number }
+  | {
+      type: "chunk_completed";
+      chunkIndex: number; // Zero-based, in recording order
+      chunkCount: number;
+      completedChunks: number; // Chunks can finish out of order
+      start: number;
+      end: number;
+      text: string; // The chunk's own transcript, before merging
+    };
+
+/**
+ * Options for a single transcription request
+ */
+export interface TranscribeOptions {
+  language?: string; // e.g. 'hi', 'en', 'ur'. Auto-detected if omitted
+  useDiarize?: boolean; // gpt-4o-transcribe-diarize for speaker diarization
+  useHighAccuracy?: boolean; // gpt-4o-transcribe for noisy/complex audio
+  timestamps?: boolean; // Return timed segments (uses whisper-1)
+  translate?: boolean; // Translate into English instead of transcribing
+  provider?: string; // Provider name; the service default if omitted
+  knownSpeakers?: KnownSpeaker[]; // Speakers the diarization model should match
+  requestId?: string; // Request ID for logging context
+  onProgress?: (progress: TranscriptionProgress) => void;
+  signal?: AbortSignal; // Kills running ffmpeg processes when aborted
+}
 
 /**
- * Service for managing audio transcription using OpenAI's Whisper API
+ * Service for managing audio transcription through pluggable providers
+ * (OpenAI's Whisper API by default, or a local Whisper server)
  */
 export class TranscriptionService {
-  private openai: OpenAI;
+  private providers: Record<string, TranscriptionProvider>;
+  private defaultProvider: string;
+  private settings: AppConfig["transcription"];
+  private textGenerationModel: string;
   private isInitialized: boolean = false;
   private serviceLogger = createChildLogger({
     service: "TranscriptionService",
   });
 
-  constructor() {
-    // Initialize OpenAI client with API key from environment variable
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+  /**
+   * @param config - Application config: default provider, chunking and text generation model
+   * @param providers - Available providers by name (defaults to those configured in the config)
+   */
+  constructor(
+    config: AppConfig = loadConfig(),
+    providers: Record<string, TranscriptionProvider> = createProviders(config)
+  ) {
+    const { defaultProvider } = config;
+    if (!providers[defaultProvider]) {
       throw new Error(
-        "OPENAI_API_KEY environment variable is required. Please set it in your .env file or environment."
+        defaultProvider === "openai"
+          ? "OPENAI_API_KEY environment variable is required. Please set it in your .env file or environment."
+          : `Transcription provider "${defaultProvider}" is not configured. Check TRANSCRIPTION_PROVIDER and the provider's environment variables.`
       );
     }
 
-    this.openai = new OpenAI({
-      apiKey: apiKey,
-    });
+    this.providers = providers;
+    this.defaultProvider = defaultProvider;
+    this.settings = config.transcription;
+    this.textGenerationModel = config.textGenerationModel;
   }
 
   /**
@@ -42,9 +153,15 @@ export class TranscriptionService {
       return;
     }
 
-    this.serviceLogger.info("Initializing OpenAI Whisper API service...");
+    this.serviceLogger.info(
+      {
+        providers: Object.keys(this.providers),
+        defaultProvider: this.defaultProvider,
+      },
+      "Initializing transcription service..."
+    );
     this.isInitialized = true;
-    this.serviceLogger.info("OpenAI Whisper service initialized");
+    this.serviceLogger.info("Transcription service initialized");
   }
 
   /**
@@ -63,19 +180,34 @@ export class TranscriptionService {
     requestId?: string,
     useHighAccuracy?: boolean
   ): Promise<string> {
+    const result = await this.transcribeDetailed(filePath, {
+      language,
+      useDiarize,
+      requestId,
+      useHighAccuracy,
+    });
+    return result.text;
+  }
+
+  /**
+   * Transcribes audio file using OpenAI's Whisper API, returning timed
+   * segments when `options.timestamps` is set
+   * @param filePath - Absolute path to the audio file
+   * @param options - Model selection, language and output options
+   * @returns Transcribed text and, if requested, segments
+   */
+  async transcribeDetailed(
+    filePath: string,
+    options: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
     await this.initialize();
 
     // Determine model outside try block so it's accessible in catch
-    // Priority: diarize > high accuracy > default mini
-    const model = useDiarize
-      ? "gpt-4o-transcribe-diarize"
-      : useHighAccuracy
-      ? "gpt-4o-transcribe"
-      : "gpt-4o-mini-transcribe";
+    const model = this.getModelName(options);
 
     // Create logger with context
     const logContext: Record<string, any> = { filePath, model };
-    if (requestId) logContext.requestId = requestId;
+    if (options.requestId) logContext.requestId = options.requestId;
     const log = createChildLogger(logContext);
 
     // Check original file size first
@@ -96,23 +228,18 @@ export class TranscriptionService {
       const fileExt = filePath.split(".").pop()?.toLowerCase();
 
       // Strategy: Try to minimize processing overhead
-      // 1. If original file is under 25MB, try it first (might work without conversion)
+      // 1. If original file is under the provider limit (25MB by default), try it first (might work without conversion)
       // 2. Only convert to WAV if original format fails
-      // 3. For very large files, use chunking (required due to 25MB file size limit)
+      // 3. For very large files, use chunking (required due to the file size limit)
 
-      if (originalSizeMB > 25) {
+      const { maxFileSizeMb } = this.settings;
+      if (originalSizeMB > maxFileSizeMb) {
         // File is too large even in original format - must use chunking
         log.info(
-          { originalSizeMB: originalSizeMB.toFixed(2) },
-          "Large file detected, processing in chunks (required due to 25MB file size limit)"
-        );
-        return await this.transcribeInChunks(
-          filePath,
-          language,
-          useDiarize,
-          requestId,
-          useHighAccuracy
+          { originalSizeMB: originalSizeMB.toFixed(2), maxFileSizeMb },
+          "Large file detected, processing in chunks (required due to file size limit)"
         );
+        return await this.transcribeInChunks(filePath, options);
       }
 
       // Try original format first (if it's a supported format)
@@ -121,7 +248,7 @@ export class TranscriptionService {
       if (supportedFormats.includes(fileExt || "")) {
         log.debug(
           { fileExt },
-          "File is under 25MB and in supported format, trying original format first"
+          "File is under the size limit and in supported format, trying original format first"
         );
         try {
           const fileBuffer = await readFile(filePath);
@@ -133,30 +260,19 @@ export class TranscriptionService {
             lastModified: Date.now(),
           });
 
-          const transcription = await this.openai.audio.transcriptions.create({
-            file: file,
-            model: model,
-            language: language,
-            response_format: "text",
-          });
-
-          const text =
-            typeof transcription === "string"
-              ? transcription
-              : (transcription as any).text || "";
+          const result = await this.requestTranscription(file, model, options);
 
           log.info(
-            { textLength: text.length },
+            { textLength: result.text.length },
             "Transcription completed using original format"
           );
-          return text.trim();
+          uploadFormatTotal.inc({ format: "original" });
+          chunkCount.observe(1);
+          return result;
         } catch (error: any) {
-          // If original format fails, fall back to WAV conversion
-          if (
-            error.message?.includes("corrupted") ||
-            error.message?.includes("unsupported") ||
-            error.message?.includes("file")
-          ) {
+          // If the provider can't read the original format, fall back to WAV
+          if (error instanceof UnsupportedMediaError) {
+            uploadFormatTotal.inc({ format: "wav_fallback" });
             log.warn(
               { error: error.message },
               "Original format failed, converting to WAV"
@@ -170,8 +286,17 @@ export class TranscriptionService {
 
       // Convert to WAV format if original format didn't work or isn't supported
       if (fileExt !== "wav") {
+        if (!supportedFormats.includes(fileExt || "")) {
+          uploadFormatTotal.inc({ format: "converted" });
+        }
         log.info({ fileExt }, "Converting to optimized WAV format");
-        convertedFilePath = await this.convertToWav(filePath, true, log); // optimized
+        options.onProgress?.({ type: "converting", format: "wav" });
+        convertedFilePath = await this.convertToWav(
+          filePath,
+          true,
+          log,
+          options.signal
+        ); // optimized
         finalFilePath = convertedFilePath;
         log.debug({ convertedFilePath }, "File converted to WAV");
       }
@@ -182,23 +307,17 @@ export class TranscriptionService {
       const fileSizeMB = fileBuffer.length / (1024 * 1024);
 
       // Double-check file size after conversion
-      if (fileSizeMB > 25) {
+      if (fileSizeMB > maxFileSizeMb) {
         // If conversion made it too large, fall back to chunking
         log.info(
-          { fileSizeMB: fileSizeMB.toFixed(2) },
-          "Converted file exceeds 25MB limit, processing in chunks"
+          { fileSizeMB: fileSizeMB.toFixed(2), maxFileSizeMb },
+          "Converted file exceeds file size limit, processing in chunks"
         );
         // Clean up converted file
         if (convertedFilePath) {
           await unlink(convertedFilePath).catch(() => {});
         }
-        return await this.transcribeInChunks(
-          filePath,
-          language,
-          useDiarize,
-          requestId,
-          useHighAccuracy
-        );
+        return await this.transcribeInChunks(filePath, options);
       }
 
       // Create File object with WAV MIME type
@@ -213,20 +332,10 @@ export class TranscriptionService {
       );
 
       // Call OpenAI's Whisper API
-      const transcription = await this.openai.audio.transcriptions.create({
-        file: file,
-        model: model,
-        language: language, // Optional: specify language or let it auto-detect
-        response_format: "text", // Get plain text response
-      });
+      const result = await this.requestTranscription(file, model, options);
 
-      // The response is a string when response_format is "text"
-      const text =
-        typeof transcription === "string"
-          ? transcription
-          : (transcription as any).text || "";
-
-      log.info({ textLength: text.length }, "Transcription completed");
+      log.info({ textLength: result.text.length }, "Transcription completed");
+      chunkCount.observe(1);
 
       // Clean up converted file if we created one
       if (convertedFilePath) {
@@ -241,7 +350,7 @@ export class TranscriptionService {
         });
       }
 
-      return text.trim();
+      return result;
     } catch (error) {
       // Clean up converted file if we created one, even on error
       if (convertedFilePath) {
@@ -264,31 +373,10 @@ export class TranscriptionService {
         "Transcription error"
       );
 
-      if (error instanceof Error) {
-        // Handle specific OpenAI API errors
-        if (error.message.includes("API key")) {
-          throw new Error("Invalid or missing OpenAI API key");
-        }
-        if (
-          error.message.includes("file") ||
-          error.message.includes("corrupted") ||
-          error.message.includes("unsupported")
-        ) {
-          // Provide more helpful error message for file format issues
-          const fileExt = filePath.split(".").pop()?.toLowerCase();
-          throw new Error(
-            `File format error: ${error.message}. ` +
-              `The file (${fileExt}) might not be compatible with ${model}. ` +
-              `The service will automatically convert to WAV format if needed.`
-          );
-        }
-        if (error.message.includes("rate limit")) {
-          throw new Error(
-            "OpenAI API rate limit exceeded. Please try again later."
-          );
-        }
+      // Typed errors carry their status to the route unchanged
+      if (error instanceof ApiError) {
+        throw error;
       }
-
       throw new Error(
         `Failed to transcribe: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -312,25 +400,34 @@ export class TranscriptionService {
       prompt?: string; // Context prompt to improve accuracy
       response_format?: "json" | "text" | "srt" | "verbose_json" | "vtt";
       temperature?: number; // 0-1, controls randomness
+      provider?: string;
     },
     useDiarize?: boolean,
     useHighAccuracy?: boolean
   ): Promise<string | any> {
     await this.initialize();
 
+    // Timed formats need segment output from the provider
+    const responseFormat = options?.response_format || "text";
+    const timestamps = ["srt", "vtt", "verbose_json"].includes(responseFormat);
+    const provider = this.getProvider(options?.provider);
+
     // Determine model outside try block so it's accessible in catch
-    // Priority: diarize > high accuracy > default mini
-    const model = useDiarize
-      ? "gpt-4o-transcribe-diarize"
-      : useHighAccuracy
-      ? "gpt-4o-transcribe"
-      : "gpt-4o-mini-transcribe";
+    const model = provider.getModelName({
+      useDiarize,
+      useHighAccuracy,
+      timestamps,
+    });
 
     // Convert to WAV format for better compatibility with new models
     let convertedFilePath: string | null = null;
     let finalFilePath = filePath;
 
-    const logContext: Record<string, any> = { filePath, model };
+    const logContext: Record<string, any> = {
+      filePath,
+      model,
+      provider: provider.name,
+    };
     const log = createChildLogger(logContext);
 
     try {
@@ -345,7 +442,7 @@ export class TranscriptionService {
         log.debug({ convertedFilePath }, "File converted to WAV");
       }
 
-      // Read the converted file and create a File object for OpenAI API
+      // Read the converted file and create a File object for the provider
       const fileBuffer = await readFile(finalFilePath);
       const fileName = basename(finalFilePath);
 
@@ -355,27 +452,30 @@ export class TranscriptionService {
         lastModified: Date.now(),
       });
 
-      const transcription = await this.openai.audio.transcriptions.create({
-        file: file,
-        model: model,
-        language: options?.language,
-        prompt: options?.prompt,
-        response_format: options?.response_format || "text",
-        temperature: options?.temperature,
-      });
+      const transcription = await provider
+        .transcribe({
+          file: file,
+          model: model,
+          language: options?.language,
+          prompt: options?.prompt,
+          temperature: options?.temperature,
+          timestamps,
+        })
+        .catch((error) => {
+          throw classifyProviderError(error, provider.name);
+        });
 
-      if (
-        options?.response_format === "json" ||
-        options?.response_format === "verbose_json"
-      ) {
-        return transcription;
+      let result: string | any;
+      if (responseFormat === "json") {
+        result = { text: transcription.text };
+      } else if (responseFormat === "verbose_json") {
+        result = transcription;
+      } else if (responseFormat === "srt" || responseFormat === "vtt") {
+        result = renderSubtitles(transcription.segments || [], responseFormat);
+      } else {
+        result = transcription.text;
       }
 
-      const result =
-        typeof transcription === "string"
-          ? transcription
-          : (transcription as any).text || "";
-
       // Clean up converted file if we created one
       if (convertedFilePath) {
         await unlink(convertedFilePath).catch((err) => {
@@ -411,6 +511,9 @@ export class TranscriptionService {
         },
         "Transcription error"
       );
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new Error(
         `Failed to transcribe: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -422,35 +525,28 @@ export class TranscriptionService {
   /**
    * Transcribe large file by splitting into chunks and processing in parallel
    *
-   * Note: OpenAI charges by audio duration ($0.006/minute), not file size or number of API calls.
-   * Chunking is only necessary due to the 25MB file size limit, not for cost reasons.
+   * Note: providers charge by audio duration (see utils/pricing.ts), not file size or number of API calls.
+   * Chunking is only necessary due to the provider file size limit (25MB by default), not for cost reasons.
    * The total cost is the same whether processed as 1 file or multiple chunks.
    */
   private async transcribeInChunks(
     filePath: string,
-    language?: string,
-    useDiarize?: boolean,
-    requestId?: string,
-    useHighAccuracy?: boolean
-  ): Promise<string> {
-    // Priority: diarize > high accuracy > default mini
-    const model = useDiarize
-      ? "gpt-4o-transcribe-diarize"
-      : useHighAccuracy
-      ? "gpt-4o-transcribe"
-      : "gpt-4o-mini-transcribe";
+    options: TranscribeOptions
+  ): Promise<TranscriptionResult> {
+    const model = this.getModelName(options);
 
     const logContext: Record<string, any> = {
       filePath,
       model,
       operation: "transcribeInChunks",
     };
-    if (requestId) logContext.requestId = requestId;
+    if (options.requestId) logContext.requestId = options.requestId;
     const log = createChildLogger(logContext);
+    const chunkFiles: string[] = [];
 
     try {
       // Get audio duration to calculate chunk size
-      const duration = await this.getAudioDuration(filePath);
+      const duration = await this.getAudioDuration(filePath, options.signal);
 
       // Validate duration - must be positive to calculate chunk sizes
       if (!duration || duration <= 0 || !isFinite(duration)) {
@@ -458,7 +554,7 @@ export class TranscriptionService {
           { duration, filePath },
           "Invalid or zero audio duration, cannot process in chunks"
         );
-        throw new Error(
+        throw new UnsupportedMediaError(
           "Cannot determine audio duration. The file may be corrupted or in an unsupported format."
         );
       }
@@ -466,20 +562,21 @@ export class TranscriptionService {
       const fileStats = await stat(filePath);
       const fileSizeBytes = fileStats.size;
       const durationMinutes = (duration / 60).toFixed(2);
-      const estimatedCost = ((duration / 60) * 0.006).toFixed(4);
 
+      // The cost is metered per request from the price table, and is the
+      // same regardless of chunking
       log.info(
         {
           durationMinutes: parseFloat(durationMinutes),
           fileSizeBytes,
-          estimatedCost: parseFloat(estimatedCost),
         },
-        "Large file detected, estimated cost (same regardless of chunking)"
+        "Large file detected"
       );
 
       // Estimate bytes per second to calculate safe chunk duration
-      // Use 80% of limit to be safe (20MB per chunk)
-      const safeChunkSizeBytes = MAX_FILE_SIZE_BYTES * 0.8;
+      // Use 80% of the provider's file size limit to be safe
+      const safeChunkSizeBytes =
+        this.settings.maxFileSizeMb * 1024 * 1024 * 0.8;
       const bytesPerSecond = fileSizeBytes / duration;
       const chunkDuration = Math.floor(safeChunkSizeBytes / bytesPerSecond);
 
@@ -491,33 +588,61 @@ export class TranscriptionService {
         chunkDuration / optimizedWavMultiplier
       );
 
-      // Minimum chunk duration of 60 seconds, maximum of 5 minutes
+      // Keep chunks within the configured bounds (1 to 5 minutes by default)
       // Optimized WAV allows larger chunks, reducing processing overhead
       const actualChunkDuration = Math.max(
-        60,
-        Math.min(optimizedChunkDuration, 300)
+        this.settings.minChunkSeconds,
+        Math.min(optimizedChunkDuration, this.settings.maxChunkSeconds)
       );
-      const numChunks = Math.ceil(duration / actualChunkDuration);
+
+      // Split in silences where possible so words aren't cut in half;
+      // otherwise overlap neighbouring chunks and de-duplicate when merging
+      const silences = await this.detectSilences(filePath, log, options.signal);
+      const chunks = planChunks(duration, actualChunkDuration, silences, {
+        toleranceSec: Math.min(
+          SPLIT_SILENCE_TOLERANCE_SEC,
+          actualChunkDuration * 0.2
+        ),
+        overlapSec: CHUNK_OVERLAP_SEC,
+      });
 
       log.info(
         {
-          numChunks,
+          numChunks: chunks.length,
           chunkDuration: actualChunkDuration,
+          silenceCount: silences.length,
+          overlappingSplits: chunks.filter((chunk) => chunk.overlapBefore > 0)
+            .length,
         },
-        "Splitting into chunks (required due to 25MB file size limit, cost remains the same)"
+        "Splitting into chunks (required due to file size limit, cost remains the same)"
       );
+      options.onProgress?.({
+        type: "chunking",
+        chunkCount: chunks.length,
+        durationSeconds: duration,
+      });
+      chunkCount.observe(chunks.length);
 
       // Create chunk files
-      const chunkFiles: string[] = [];
-      for (let i = 0; i < numChunks; i++) {
-        const startTime = i * actualChunkDuration;
+      for (let i = 0; i < chunks.length; i++) {
+        const chunk = chunks[i];
         const chunkFile = filePath.replace(/(\.[^.]+)$/, `_chunk${i}$1`);
         chunkFiles.push(chunkFile);
 
         // Extract chunk using ffmpeg (copy codec to avoid re-encoding)
-        await execAsync(
-          `ffmpeg -i "${filePath}" -ss ${startTime} -t ${actualChunkDuration} -c copy "${chunkFile}" -y`
-        );
+        const stopTimer = ffmpegSeconds.startTimer({ operation: "split" });
+        await media
+          .copySegment(
+            filePath,
+            chunkFile,
+            chunk.start,
+            chunk.end - chunk.start,
+            this.ffmpegOptions(options.signal)
+          )
+          .catch((error) => {
+            throw toConversionError(error, "Failed to split audio into chunks");
+          });
+        stopTimer();
       }
 
       log.info(
@@ -525,52 +650,74 @@ export class TranscriptionService {
         "Created chunk files, processing in parallel"
       );
 
-      // Process chunks in parallel (max 2 at a time to avoid rate limits)
-      const maxConcurrent = 2;
-      const results: string[] = [];
-
-      for (let i = 0; i < chunkFiles.length; i += maxConcurrent) {
-        const batch = chunkFiles.slice(i, i + maxConcurrent);
-        const batchNum = Math.ceil((i + 1) / maxConcurrent);
-        const totalBatches = Math.ceil(chunkFiles.length / maxConcurrent);
-        log.info(
-          {
-            batchNum,
-            totalBatches,
-            chunkStart: i,
-            chunkEnd: i + batch.length - 1,
-          },
-          "Processing batch"
+      // Process chunks in parallel (2 at a time per request by default;
+      // provider calls across all requests are limited by RateLimitedProvider).
+      // Diarized chunks run in order so speaker labels can be carried forward
+      const maxConcurrent = this.settings.maxConcurrentChunks;
+      const results: TranscriptionResult[] = [];
+      let completedChunks = 0;
+      const reportChunk = (chunkIndex: number, result: TranscriptionResult) => {
+        completedChunks++;
+        options.onProgress?.({
+          type: "chunk_completed",
+          chunkIndex,
+          chunkCount: chunks.length,
+          completedChunks,
+          start: chunks[chunkIndex].start,
+          end: chunks[chunkIndex].end,
+          text: result.text,
+        });
+      };
+
+      if (options.useDiarize) {
+        results.push(
+          ...(await this.transcribeDiarizedChunks(
+            filePath,
+            chunkFiles,
+            chunks,
+            options,
+            log,
+            reportChunk
+          ))
         );
+      } else {
+        for (let i = 0; i < chunkFiles.length; i += maxConcurrent) {
+          const batch = chunkFiles.slice(i, i + maxConcurrent);
+          const batchNum = Math.ceil((i + 1) / maxConcurrent);
+          const totalBatches = Math.ceil(chunkFiles.length / maxConcurrent);
+          log.info(
+            {
+              batchNum,
+              totalBatches,
+              chunkStart: i,
+              chunkEnd: i + batch.length - 1,
+            },
+            "Processing batch"
+          );
 
-        const batchResults = await Promise.all(
-          batch.map((chunkFile) =>
-            this.transcribeSingle(
-              chunkFile,
-              language,
-              useDiarize,
-              requestId,
-              useHighAccuracy
-            )
-          )
-        );
-        results.push(...batchResults);
+          const batchResults = await Promise.all(
+            batch.map(async (chunkFile, j) => {
+              const result = await this.transcribeSingle(chunkFile, options);
+              reportChunk(i + j, result);
+              return result;
+            })
+          );
+          results.push(...batchResults);
+        }
       }
 
-      // Clean up chunk files
-      await Promise.all(chunkFiles.map((file) => unlink(file).catch(() => {})));
-
       // Combine results
-      const combinedText = results.filter((r) => r.length > 0).join(" ");
+      const combined = this.mergeChunkResults(results, chunks);
       log.info(
         {
-          combinedTextLength: combinedText.length,
+          combinedTextLength: combined.text.length,
           chunkCount: results.length,
+          segmentCount: combined.segments?.length,
         },
         "Combined transcription from chunks"
       );
 
-      return combinedText;
+      return combined;
     } catch (error) {
       log.error(
         {
@@ -579,30 +726,321 @@ export class TranscriptionService {
         },
         "Error in transcribeInChunks"
       );
+      if (error instanceof ApiError) {
+        throw error;
+      }
       throw new Error(
         `Failed to transcribe in chunks: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
+    } finally {
+      // Clean up chunk files, including those left by a failed chunk
+      await Promise.all(chunkFiles.map((file) => unlink(file).catch(() => {})));
     }
   }
 
+  /**
+   * Transcribe diarized chunks one after another so one person keeps one
+   * speaker label for the whole recording. Each speaker's longest turn is cut
+   * from the original file and sent with later chunks as a known-speaker
+   * reference; audio shared with the previous chunk is the fallback match.
+   * Returned segment times stay relative to each chunk.
+   */
+  private async transcribeDiarizedChunks(
+    filePath: string,
+    chunkFiles: string[],
+    chunks: ChunkPlan[],
+    options: TranscribeOptions,
+    log: ReturnType<typeof createChildLogger>,
+    onChunkDone: (chunkIndex: number, result: TranscriptionResult) => void
+  ): Promise<TranscriptionResult[]> {
+    const results: TranscriptionResult[] = [];
+    const references = new Map<string, string>(); // Label -> data URL
+    const talkTime = new Map<string, number>();
+    let previousSegments: TranscriptSegment[] = [];
+
+    for (let i = 0; i < chunkFiles.length; i++) {
+      const chunk = chunks[i];
+
+      // Speakers supplied by the caller take precedence over carried clips
+      const callerSpeakers = options.knownSpeakers || [];
+      const carriedSpeakers = [...references.keys()]
+        .sort((a, b) => (talkTime.get(b) || 0) - (talkTime.get(a) || 0))
+        .slice(0, Math.max(0, MAX_KNOWN_SPEAKERS - callerSpeakers.length))
+        .map((label) => ({
+          name: `${REFERENCE_NAME_PREFIX}${label}`,
+          reference: references.get(label)!,
+        }));
+
+      log.info(
+        {
+          chunkIndex: i,
+          carriedSpeakers: carriedSpeakers.map((speaker) => speaker.name),
+        },
+        "Transcribing diarized chunk"
+      );
+
+      const result = await this.transcribeSingle(chunkFiles[i], {
+        ...options,
+        knownSpeakers: [...callerSpeakers, ...carriedSpeakers],
+      });
+
+      const absoluteSegments = (result.segments || []).map((segment) => ({
+        ...segment,
+        start: segment.start + chunk.start,
+        end: segment.end + chunk.start,
+      }));
+      const mapping = matchChunkSpeakers(absoluteSegments, {
+        referenceLabels: Object.fromEntries([
+          ...callerSpeakers.map((speaker) => [speaker.name, speaker.name]),
+          ...carriedSpeakers.map((speaker) => [
+            speaker.name,
+            speaker.name.slice(REFERENCE_NAME_PREFIX.length),
+          ]),
+        ]),
+        previousSegments,
+        overlap:
+          chunk.overlapBefore > 0
+            ? { start: chunk.start, end: chunk.start + chunk.overlapBefore }
+            : null,
+        usedLabels: [
+          ...talkTime.keys(),
+          ...callerSpeakers.map((speaker) => speaker.name),
+        ],
+      });
+      log.info(
+        { chunkIndex: i, speakerMapping: mapping },
+        "Reconciled chunk speaker labels"
+      );
+
+      const relabel = (segment: TranscriptSegment): TranscriptSegment => ({
+        ...segment,
+        speaker: mapping[segment.speaker || "unknown"],
+      });
+      results.push({
+        ...result,
+        segments: (result.segments || []).map(relabel),
+      });
+      onChunkDone(i, results[i]);
+      previousSegments = absoluteSegments.map(relabel);
+
+      for (const segment of previousSegments) {
+        const label = segment.speaker!;
+        talkTime.set(
+          label,
+          (talkTime.get(label) || 0) + (segment.end - segment.start)
+        );
+      }
+
+      // Cut reference clips for speakers first heard in this chunk
+      if (i === chunkFiles.length - 1) continue;
+      for (const label of new Set(Object.values(mapping))) {
+        if (
+          references.has(label) ||
+          callerSpeakers.some((speaker) => speaker.name === label)
+        ) {
+          continue;
+        }
+
+        const turn = previousSegments
+          .filter(
+            (segment) =>
+              segment.speaker === label &&
+              segment.end - segment.start >= MIN_REFERENCE_SEC
+          )
+          .sort((a, b) => b.end - b.start - (a.end - a.start))[0];
+        if (!turn) continue;
+
+        try {
+          references.set(
+            label,
+            await this.extractSpeakerReference(
+              filePath,
+              turn.start,
+              Math.min(turn.end, turn.start + MAX_REFERENCE_SEC),
+              label,
+              options.signal
+            )
+          );
+        } catch (error) {
+          log.warn(
+            {
+              speaker: label,
+              error: error instanceof Error ? error.message : "Unknown error",
+            },
+            "Could not extract speaker reference clip"
+          );
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Join enrollment clips into one known-speaker reference: a mono 16kHz WAV
+   * data URL of at most 10 seconds
+   * @param clipPaths - Uploaded clips of the speaker talking alone
+   * @throws If the clips can't be decoded or are shorter than 2 seconds in total
+   */
+  async createSpeakerReference(
+    clipPaths: string[]
+  ): Promise<{ reference: string; durationSeconds: number }> {
+    const outputPath = clipPaths[0].replace(/(\.[^.]+)$/, "_reference.wav");
+
+    try {
+      try {
+        await media.concatToWav(
+          clipPaths,
+          outputPath,
+          MAX_REFERENCE_SEC,
+          16000,
+          this.ffmpegOptions()
+        );
+      } catch (error) {
+        if (
+          error instanceof MediaError &&
+          (error.reason === "not_installed" || error.reason === "aborted")
+        ) {
+          throw error;
+        }
+        throw new UnsupportedMediaError(
+          "Reference clips could not be decoded. Upload audio files such as mp3, m4a or wav."
+        );
+      }
+
+      const durationSeconds = await this.getAudioDuration(outputPath);
+      if (durationSeconds < MIN_REFERENCE_SEC) {
+        throw new ValidationError(
+          `Reference clips must add up to at least ${MIN_REFERENCE_SEC} seconds of speech (got ${durationSeconds.toFixed(
+            1
+          )}s)`
+        );
+      }
+
+      const clip = await readFile(outputPath);
+      return {
+        reference: `data:audio/wav;base64,${clip.toString("base64")}`,
+        durationSeconds: roundTime(durationSeconds),
+      };
+    } finally {
+      await unlink(outputPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Cut a clip from the original file as a mono 16kHz WAV data URL, for use
+   * as a known-speaker reference
+   */
+  private async extractSpeakerReference(
+    filePath: string,
+    start: number,
+    end: number,
+    label: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const clipPath = filePath.replace(/(\.[^.]+)$/, `_speaker${label}.wav`);
+    try {
+      await media.extractWavSegment(
+        filePath,
+        clipPath,
+        start,
+        end - start,
+        16000,
+        this.ffmpegOptions(signal)
+      );
+      const clip = await readFile(clipPath);
+      return `data:audio/wav;base64,${clip.toString("base64")}`;
+    } finally {
+      await unlink(clipPath).catch(() => {});
+    }
+  }
+
+  /**
+   * Merge per-chunk results into one transcript.
+   * Each chunk's segments start at zero, so they are shifted by the chunk's
+   * start time. Where chunks overlap, segments are assigned to the chunk whose
+   * half of the overlap they fall in, and text repeated at the start of the
+   * later chunk is dropped. The merged segment list stays ordered and never
+   * overlaps. When the provider returned no segments, each chunk becomes one
+   * segment spanning its share of the recording.
+   */
+  private mergeChunkResults(
+    results: TranscriptionResult[],
+    chunks: ChunkPlan[]
+  ): TranscriptionResult {
+    let text = "";
+    const chunkTexts = results.map((result, i) => {
+      const chunkText =
+        chunks[i].overlapBefore > 0
+          ? removeOverlapDuplicate(text, result.text)
+          : result.text;
+      if (chunkText.length > 0) {
+        text = text ? `${text} ${chunkText}` : chunkText;
+      }
+      return chunkText;
+    });
+
+    const languages = mergeChunkLanguages(results, chunks);
+    const chunkCount = chunks.length;
+    // Middle of the overlap on each side (the chunk edge when no overlap)
+    const keepFrom = (i: number) =>
+      chunks[i].start + chunks[i].overlapBefore / 2;
+    const keepUntil = (i: number) =>
+      i + 1 < chunks.length ? keepFrom(i + 1) : chunks[i].end;
+
+    if (!results.some((r) => r.segments)) {
+      const segments: TranscriptSegment[] = [];
+      chunkTexts.forEach((chunkText, i) => {
+        if (!chunkText) return;
+        segments.push({
+          id: segments.length,
+          start: roundTime(keepFrom(i)),
+          end: roundTime(keepUntil(i)),
+          text: chunkText,
+        });
+      });
+      return { text, segments, ...languages, chunkCount };
+    }
+
+    const segments: TranscriptSegment[] = [];
+    results.forEach((result, i) => {
+      const chunk = chunks[i];
+      const next = chunks[i + 1];
+      const chunkKeepFrom = keepFrom(i);
+      const chunkKeepUntil = next ? keepFrom(i + 1) : Infinity;
+
+      for (const segment of result.segments || []) {
+        if (!segment.text) continue;
+
+        const absoluteStart = segment.start + chunk.start;
+        const absoluteEnd = segment.end + chunk.start;
+        const midpoint = (absoluteStart + absoluteEnd) / 2;
+        if (midpoint < chunkKeepFrom || midpoint >= chunkKeepUntil) continue;
+
+        const previousEnd =
+          segments.length > 0 ? segments[segments.length - 1].end : 0;
+        const start = Math.max(roundTime(absoluteStart), previousEnd);
+        const end = Math.max(
+          start,
+          roundTime(Math.min(absoluteEnd, chunkKeepUntil))
+        );
+        segments.push({ ...segment, id: segments.length, start, end });
+      }
+    });
+
+    return { text, segments, ...languages, chunkCount };
+  }
+
   /**
    * Transcribe a single file (or chunk) - handles WAV conversion
    */
   private async transcribeSingle(
     filePath: string,
-    language?: string,
-    useDiarize?: boolean,
-    requestId?: string,
-    useHighAccuracy?: boolean
-  ): Promise<string> {
-    // Priority: diarize > high accuracy > default mini
-    const model = useDiarize
-      ? "gpt-4o-transcribe-diarize"
-      : useHighAccuracy
-      ? "gpt-4o-transcribe"
-      : "gpt-4o-mini-transcribe";
+    options: TranscribeOptions
+  ): Promise<TranscriptionResult> {
+    const model = this.getModelName(options);
 
     // Create logger with context
     const logContext: Record<string, any> = {
@@ -610,7 +1048,7 @@ export class TranscriptionService {
       model,
       operation: "transcribeSingle",
     };
-    if (requestId) logContext.requestId = requestId;
+    if (options.requestId) logContext.requestId = options.requestId;
     const log = createChildLogger(logContext);
 
     let convertedFilePath: string | null = null;
@@ -620,7 +1058,12 @@ export class TranscriptionService {
       // Convert to optimized WAV if needed (smaller file size)
       const fileExt = filePath.split(".").pop()?.toLowerCase();
       if (fileExt !== "wav") {
-        convertedFilePath = await this.convertToWav(filePath, true, log); // optimized
+        convertedFilePath = await this.convertToWav(
+          filePath,
+          true,
+          log,
+          options.signal
+        ); // optimized
         finalFilePath = convertedFilePath;
       }
 
@@ -630,11 +1073,11 @@ export class TranscriptionService {
 
       // Check file size
       const fileSizeMB = fileBuffer.length / (1024 * 1024);
-      if (fileSizeMB > 25) {
+      if (fileSizeMB > this.settings.maxFileSizeMb) {
         throw new Error(
-          `Chunk file size (${fileSizeMB.toFixed(
-            2
-          )}MB) still exceeds 25MB limit`
+          `Chunk file size (${fileSizeMB.toFixed(2)}MB) still exceeds ${
+            this.settings.maxFileSizeMb
+          }MB limit`
         );
       }
 
@@ -644,20 +1087,10 @@ export class TranscriptionService {
       });
 
       // Call OpenAI's Whisper API
-      const transcription = await this.openai.audio.transcriptions.create({
-        file: file,
-        model: model,
-        language: language,
-        response_format: "text",
-      });
-
-      const text =
-        typeof transcription === "string"
-          ? transcription
-          : (transcription as any).text || "";
+      const result = await this.requestTranscription(file, model, options);
 
       log.debug(
-        { textLength: text.length },
+        { textLength: result.text.length },
         "Transcription completed for chunk"
       );
 
@@ -666,7 +1099,7 @@ export class TranscriptionService {
         await unlink(convertedFilePath).catch(() => {});
       }
 
-      return text.trim();
+      return result;
     } catch (error) {
       // Clean up on error
       if (convertedFilePath) {
@@ -684,22 +1117,112 @@ export class TranscriptionService {
   }
 
   /**
-   * Get audio duration in seconds using ffprobe
+   * Names of the configured providers
+   */
+  getProviderNames(): string[] {
+    return Object.keys(this.providers);
+  }
+
+  /**
+   * Name of the provider used when a request doesn't specify one
+   */
+  getDefaultProviderName(): string {
+    return this.defaultProvider;
+  }
+
+  /**
+   * Look up a provider by name, falling back to the default provider
+   */
+  getProvider(name?: string): TranscriptionProvider {
+    const providerName = name || this.defaultProvider;
+    const provider = this.providers[providerName];
+    if (!provider) {
+      throw new ValidationError(
+        `Unknown transcription provider "${providerName}". Available providers: ${this.getProviderNames().join(
+          ", "
+        )}`
+      );
+    }
+    return provider;
+  }
+
+  /**
+   * Resolve the transcription model the selected provider uses for a set of options
    */
-  private async getAudioDuration(filePath: string): Promise<number> {
+  getModelName(
+    options: Pick<
+      TranscribeOptions,
+      "useDiarize" | "useHighAccuracy" | "timestamps" | "translate" | "provider"
+    >
+  ): string {
+    return this.getProvider(options.provider).getModelName(options);
+  }
+
+  /**
+   * Send one file to the selected provider
+   */
+  private async requestTranscription(
+    file: File,
+    model: string,
+    options: TranscribeOptions
+  ): Promise<TranscriptionResult> {
+    const provider = this.getProvider(options.provider);
+    const request = {
+      file,
+      model,
+      language: options.language,
+      timestamps: options.timestamps,
+      diarize: options.useDiarize,
+      knownSpeakers: options.useDiarize ? options.knownSpeakers : undefined,
+    };
+
     try {
-      const { stdout } = await execAsync(
-        `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${filePath}"`
+      return await (options.translate
+        ? provider.translate(request)
+        : provider.transcribe(request));
+    } catch (error) {
+      throw classifyProviderError(error, provider.name);
+    }
+  }
+
+  /**
+   * Inspect a file with ffprobe to check that it really contains audio,
+   * whatever its extension says
+   * @returns The format, codec, duration and stream details, or null if the
+   * file has no audio stream or isn't a media file at all
+   * @throws MediaError if ffprobe itself can't be run or times out
+   */
+  async probeAudio(
+    filePath: string,
+    signal?: AbortSignal
+  ): Promise<AudioProbe | null> {
+    const probe = await media.probeAudio(filePath, this.ffprobeOptions(signal));
+    if (!probe) {
+      this.serviceLogger.debug({ filePath }, "ffprobe found no audio in file");
+    }
+    return probe;
+  }
+
+  /**
+   * Get audio duration in seconds using ffprobe (0 if it can't be read)
+   */
+  async getAudioDuration(
+    filePath: string,
+    signal?: AbortSignal
+  ): Promise<number> {
+    try {
+      const probe = await media.probeAudio(
+        filePath,
+        this.ffprobeOptions(signal)
       );
-      const duration = parseFloat(stdout.trim());
-      if (isNaN(duration)) {
+      if (probe?.durationSeconds == null) {
         this.serviceLogger.warn(
           { filePath },
           "Could not parse audio duration, defaulting to estimate"
         );
         return 0;
       }
-      return duration;
+      return probe.durationSeconds;
     } catch (error) {
       this.serviceLogger.warn(
         {
@@ -712,30 +1235,74 @@ export class TranscriptionService {
     }
   }
 
+  /**
+   * Find silent stretches using ffmpeg's silencedetect filter.
+   * Returns an empty list if detection fails, so chunking falls back to
+   * overlapping fixed-length chunks.
+   */
+  private async detectSilences(
+    filePath: string,
+    log?: ReturnType<typeof createChildLogger>,
+    signal?: AbortSignal
+  ): Promise<SilenceInterval[]> {
+    const logger = log || this.serviceLogger;
+    try {
+      const silences = await media.detectSilences(
+        filePath,
+        SILENCE_NOISE_THRESHOLD,
+        SILENCE_MIN_DURATION_SEC,
+        this.ffmpegOptions(signal)
+      );
+      logger.debug({ silenceCount: silences.length }, "Detected silences");
+      return silences;
+    } catch (error) {
+      if (error instanceof MediaError && error.reason === "aborted") {
+        throw error;
+      }
+      logger.warn(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+          filePath,
+        },
+        "Silence detection failed, using fixed split points"
+      );
+      return [];
+    }
+  }
+
   /**
    * Convert audio file to WAV format using ffmpeg
    * @param filePath - Path to the input audio file
    * @param optimized - If true, uses lower sample rate to reduce file size (8kHz instead of 16kHz)
    * @param log - Optional logger instance for logging
+   * @param signal - Kills ffmpeg when aborted
    * @returns Path to the converted WAV file
    */
   private async convertToWav(
     filePath: string,
     optimized: boolean = false,
-    log?: ReturnType<typeof createChildLogger>
+    log?: ReturnType<typeof createChildLogger>,
+    signal?: AbortSignal
   ): Promise<string> {
     const outputPath = filePath.replace(/\.[^.]+$/, ".wav");
 
     try {
       // Use optimized settings to reduce file size while maintaining acceptable quality
-      // -ar 8000: sample rate 8kHz (still good for speech, reduces file size by ~50%)
-      // -ar 16000: sample rate 16kHz (better quality, larger file)
+      // -ar: optimized 8kHz by default (still good for speech, reduces file size by ~50%)
+      //      or standard 16kHz by default (better quality, larger file)
       // -ac 1: mono channel (reduces file size by 50% vs stereo)
       // -c:a pcm_s16le: PCM 16-bit little-endian (standard WAV format)
-      const sampleRate = optimized ? "8000" : "16000";
-      await execAsync(
-        `ffmpeg -i "${filePath}" -ar ${sampleRate} -ac 1 -c:a pcm_s16le "${outputPath}" -y`
+      const sampleRate = optimized
+        ? this.settings.optimizedSampleRate
+        : this.settings.sampleRate;
+      const stopTimer = ffmpegSeconds.startTimer({ operation: "convert" });
+      await media.convertToWav(
+        filePath,
+        outputPath,
+        sampleRate,
+        this.ffmpegOptions(signal)
       );
+      stopTimer();
 
       const logger = log || this.serviceLogger;
       logger.info({ sampleRate, outputPath }, "Successfully converted to WAV");
@@ -745,19 +1312,33 @@ export class TranscriptionService {
       logger.error(
         {
           error: error instanceof Error ? error.message : "Unknown error",
-          stack: error instanceof Error ? error.stack : undefined,
+          reason: error instanceof MediaError ? error.reason : undefined,
+          stderr: error instanceof MediaError ? error.stderr : undefined,
           filePath,
         },
         "Failed to convert file to WAV"
       );
-      throw new Error(
-        `Failed to convert audio file to WAV format: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
+      throw toConversionError(
+        error,
+        "Failed to convert audio file to WAV format"
       );
     }
   }
 
+  /**
+   * Timeout and abort signal for an ffmpeg run
+   */
+  private ffmpegOptions(signal?: AbortSignal): MediaRunOptions {
+    return { timeoutMs: this.settings.ffmpegTimeoutSeconds * 1000, signal };
+  }
+
+  /**
+   * Timeout and abort signal for an ffprobe run
+   */
+  private ffprobeOptions(signal?: AbortSignal): MediaRunOptions {
+    return { timeoutMs: this.settings.ffprobeTimeoutSeconds * 1000, signal };
+  }
+
   /**
    * Get MIME type from file extension
    */
@@ -776,28 +1357,31 @@ export class TranscriptionService {
   }
 
   /**
-   * Generate text from transcript using OpenAI Chat Completions API
+   * Generate text from transcript using the provider's chat completion API
    * @param transcript - The transcribed text from audio
    * @param prompt - The prompt to use for text generation
-   * @param model - Optional model to use (defaults to OPENAI_TEXT_GENERATION_MODEL env var or 'gpt-4o-mini')
+   * @param model - Optional model to use (defaults to the configured text generation model)
    * @param requestId - Optional request ID for logging context
-   * @returns Generated text
+   * @param providerName - Optional provider name (defaults to the service default)
+   * @returns Generated text, with the model that answered and the tokens used
    */
   async generateTextFromTranscript(
     transcript: string,
     prompt: string,
     model?: string,
-    requestId?: string
-  ): Promise<string> {
+    requestId?: string,
+    providerName?: string
+  ): Promise<ProviderChatResult> {
     await this.initialize();
 
-    // Get model from parameter, environment variable, or default
-    const textGenerationModel =
-      model || process.env.OPENAI_TEXT_GENERATION_MODEL || "gpt-4o-mini";
+    const provider = this.getProvider(providerName);
+
+    const textGenerationModel = model || this.textGenerationModel;
 
     // Create logger with context
     const logContext: Record<string, any> = {
       textGenerationModel,
+      provider: provider.name,
       transcriptLength: transcript.length,
       promptLength: prompt.length,
     };
@@ -807,31 +1391,36 @@ export class TranscriptionService {
     try {
       log.info("Starting text generation from transcript");
 
-      // Call OpenAI's Chat Completions API
-      const completion = await this.openai.chat.completions.create({
-        model: textGenerationModel,
-        messages: [
-          {
-            role: "user",
-            content: `${prompt}\n\nTranscript:\n${transcript}`,
-          },
-        ],
-      });
-
-      const generatedText =
-        completion.choices[0]?.message?.content?.trim() || "";
+      // Call the provider's chat completion API
+      const result = await provider
+        .chat({
+          model: textGenerationModel,
+          messages: [
+            {
+              role: "user",
+              content: `${prompt}\n\nTranscript:\n${transcript}`,
+            },
+          ],
+        })
+        .catch((error) => {
+          throw classifyProviderError(error, provider.name);
+        });
 
-      if (!generatedText) {
+      if (!result.text) {
         log.warn("Empty response from text generation");
         throw new Error("Empty response from text generation API");
       }
 
       log.info(
-        { generatedTextLength: generatedText.length },
+        {
+          generatedTextLength: result.text.length,
+          promptTokens: result.usage?.promptTokens,
+          completionTokens: result.usage?.completionTokens,
+        },
         "Text generation completed"
       );
 
-      return generatedText;
+      return result;
     } catch (error) {
       log.error(
         {
@@ -841,23 +1430,9 @@ export class TranscriptionService {
         "Text generation error"
       );
 
-      if (error instanceof Error) {
-        // Handle specific OpenAI API errors
-        if (error.message.includes("API key")) {
-          throw new Error("Invalid or missing OpenAI API key");
-        }
-        if (error.message.includes("rate limit")) {
-          throw new Error(
-            "OpenAI API rate limit exceeded. Please try again later."
-          );
-        }
-        if (error.message.includes("model")) {
-          throw new Error(
-            `Invalid model specified: ${textGenerationModel}. Please check OPENAI_TEXT_GENERATION_MODEL environment variable.`
-          );
-        }
+      if (error instanceof ApiError) {
+        throw error;
       }
-
       throw new Error(
         `Failed to generate text: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -866,3 +1441,59 @@ export class TranscriptionService {
     }
   }
 }
+
+/**
+ * Overall language of a chunked recording: the language spoken for the most
+ * audio time. Per-chunk languages are included when chunks disagree.
+ */
+function mergeChunkLanguages(
+  results: TranscriptionResult[],
+  chunks: ChunkPlan[]
+): Pick<TranscriptionResult, "language" | "chunkLanguages"> {
+  const perChunk: ChunkLanguage[] = results.map((result, i) => ({
+    start: chunks[i].start,
+    end: chunks[i].end,
+    language: result.language || null,
+  }));
+
+  const durations = new Map<string, number>();
+  for (const chunk of perChunk) {
+    if (!chunk.language) continue;
+    durations.set(
+      chunk.language,
+      (durations.get(chunk.language) || 0) + (chunk.end - chunk.start)
+    );
+  }
+  if (durations.size === 0) {
+    return {};
+  }
+
+  const language = [...durations.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const agree = perChunk.every((chunk) => chunk.language === language);
+  return agree ? { language } : { language, chunkLanguages: perChunk };
+}
+
+/**
+ * Report an ffmpeg failure caused by the file as a ConversionError. A
+ * missing ffmpeg is the server's problem, not the file's, and an aborted
+ * run isn't a failure of the file either, so those are passed on as is.
+ * @param context - What was being done, e.g. "Failed to split audio"
+ */
+function toConversionError(error: unknown, context: string): Error {
+  if (
+    error instanceof MediaError &&
+    (error.reason === "not_installed" || error.reason === "aborted")
+  ) {
+    return error;
+  }
+  return new ConversionError(
+    `${context}: ${error instanceof Error ? error.message : "ffmpeg failed"}`
+  );
+}
+
+/**
+ * Round a time in seconds to millisecond precision
+ */
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
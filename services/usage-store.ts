@@ -0,0 +1,208 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname, join } from "path";
+import { createChildLogger } from "../utils/logger.js";
+
+/**
+ * Metered usage of one transcription, as written to the usage log
+ */
+export interface UsageRecord {
+  requestId: string;
+  clientId?: string; // Absent when API keys aren't required
+  timestamp: string;
+  provider: string;
+  model: string; // Transcription model
+  audioSeconds: number;
+  cache: string; // Cache hits cost nothing to transcribe
+  transcriptionCost: number; // USD
+  textGenerationModel?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  textGenerationCost?: number; // USD
+  cost: number; // USD, transcription and text generation
+}
+
+/**
+ * Usage of one model by one client on one day (UTC)
+ */
+export interface UsageSummaryRow {
+  day: string;
+  clientId: string | null;
+  model: string;
+  requests: number;
+  audioMinutes: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageQuery {
+  from: string; // First day, YYYY-MM-DD
+  to: string; // Last day, YYYY-MM-DD
+  clientId?: string; // Only this client's usage
+}
+
+/**
+ * Append-only usage log, one JSON record per line like the webhook
+ * delivery log
+ */
+export class UsageStore {
+  private storeLogger = createChildLogger({ service: "UsageStore" });
+
+  constructor(
+    private filePath: string = join(process.cwd(), "data", "usage.jsonl")
+  ) {}
+
+  /**
+   * Append a record. Never throws; a failed write is logged, since metering
+   * shouldn't fail a transcription that already succeeded.
+   */
+  async record(entry: UsageRecord): Promise<void> {
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, JSON.stringify(entry) + "\n", "utf-8");
+    } catch (error) {
+      this.storeLogger.error(
+        {
+          error: error instanceof Error ? error.message : "Unknown error",
+          filePath: this.filePath,
+          requestId: entry.requestId,
+        },
+        "Failed to write usage record"
+      );
+    }
+  }
+
+  /**
+   * Read the records in a date range, oldest first
+   */
+  async query(query: UsageQuery): Promise<UsageRecord[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return raw
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as UsageRecord)
+      .filter((entry) => {
+        const day = entry.timestamp.slice(0, 10);
+        return (
+          day >= query.from &&
+          day <= query.to &&
+          (!query.clientId || entry.clientId === query.clientId)
+        );
+      });
+  }
+}
+
+/**
+ * Group records by day, client and model. Text generation is reported on a
+ * row of its own for the chat model, so each row has a single price.
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummaryRow[] {
+  const rows = new Map<string, UsageSummaryRow>();
+  const addTo = (
+    entry: UsageRecord,
+    model: string,
+    usage: Partial<UsageSummaryRow>
+  ) => {
+    const day = entry.timestamp.slice(0, 10);
+    const clientId = entry.clientId ?? null;
+    const key = JSON.stringify([day, clientId, model]);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        day,
+        clientId,
+        model,
+        requests: 0,
+        audioMinutes: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+      };
+      rows.set(key, row);
+    }
+    row.requests++;
+    row.audioMinutes += usage.audioMinutes || 0;
+    row.promptTokens += usage.promptTokens || 0;
+    row.completionTokens += usage.completionTokens || 0;
+    row.cost += usage.cost || 0;
+  };
+
+  for (const entry of records) {
+    addTo(entry, entry.model, {
+      audioMinutes: entry.audioSeconds / 60,
+      cost: entry.transcriptionCost,
+    });
+    if (entry.textGenerationModel) {
+      addTo(entry, entry.textGenerationModel, {
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        cost: entry.textGenerationCost,
+      });
+    }
+  }
+
+  return [...rows.values()]
+    .map((row) => ({
+      ...row,
+      audioMinutes: roundTo(row.audioMinutes, 2),
+      cost: roundTo(row.cost, 6),
+    }))
+    .sort(
+      (a, b) =>
+        a.day.localeCompare(b.day) ||
+        (a.clientId || "").localeCompare(b.clientId || "") ||
+        a.model.localeCompare(b.model)
+    );
+}
+
+/**
+ * Render summary rows as CSV with a header line
+ */
+export function usageToCsv(rows: UsageSummaryRow[]): string {
+  const header = [
+    "day",
+    "clientId",
+    "model",
+    "requests",
+    "audioMinutes",
+    "promptTokens",
+    "completionTokens",
+    "costUsd",
+  ];
+  const lines = rows.map((row) =>
+    [
+      row.day,
+      row.clientId || "",
+      row.model,
+      row.requests,
+      row.audioMinutes,
+      row.promptTokens,
+      row.completionTokens,
+      row.cost,
+    ]
+      .map((value) => csvField(String(value)))
+      .join(",")
+  );
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+/**
+ * Quote a CSV field if it contains a delimiter, quote or line break
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,411 @@
+import { createHmac, randomUUID } from "crypto";
+import { lookup as dnsLookup } from "dns/promises";
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import http from "http";
+import https from "https";
+import { isIP } from "net";
+import { dirname, join } from "path";
+import { createChildLogger } from "../utils/logger.js";
+import {
+  AddressPolicy,
+  createPinnedLookup,
+  isBlockedAddress,
+} from "../utils/remote-audio.js";
+
+/**
+ * One delivery attempt as written to the delivery log
+ */
+export interface WebhookDeliveryAttempt {
+  deliveryId: string;
+  requestId: string;
+  clientId?: string; // API key client the request belongs to
+  url: string;
+  attempt: number;
+  timestamp: string;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Outcome of delivering a webhook, after all retries
+ */
+export interface WebhookDeliveryResult {
+  deliveryId: string;
+  delivered: boolean;
+  attempts: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookServiceOptions extends Partial<AddressPolicy> {
+  secret?: string;
+  logPath?: string;
+  logRetentionMs?: number; // Older attempts are trimmed from the log; 0 keeps them
+  maxAttempts?: number;
+  initialDelayMs?: number;
+  timeoutMs?: number;
+}
+
+// How often the delivery log is checked for attempts past the retention
+const LOG_TRIM_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * A callback host that resolves to an address the policy refuses
+ */
+class BlockedCallbackError extends Error {
+  constructor(hostname: string) {
+    super(
+      `callbackUrl host ${hostname} resolves to a private or loopback address`
+    );
+    this.name = "BlockedCallbackError";
+  }
+}
+
+/**
+ * Delivers signed webhook callbacks with retries and keeps a delivery log.
+ *
+ * Each request carries `X-Webhook-Signature: sha256=<hex>`, an HMAC-SHA256 of
+ * `<timestamp>.<body>` keyed with the shared secret, where `<timestamp>` is
+ * the value of the `X-Webhook-Timestamp` header.
+ *
+ * Like audioUrl downloads, callbacks are refused for hosts that resolve to
+ * loopback, private or link-local addresses unless they are allowed, both
+ * when the URL is submitted and on every delivery attempt.
+ *
+ * Writes to the delivery log are serialized, so trimming old attempts never
+ * loses one appended at the same time.
+ */
+export class WebhookService {
+  private secret?: string;
+  private logPath: string;
+  private logRetentionMs: number;
+  private nextTrimAt = 0;
+  private logQueue: Promise<void> = Promise.resolve();
+  private maxAttempts: number;
+  private initialDelayMs: number;
+  private timeoutMs: number;
+  private addressPolicy: AddressPolicy;
+  private serviceLogger = createChildLogger({ service: "WebhookService" });
+
+  constructor(options: WebhookServiceOptions = {}) {
+    this.secret = options.secret;
+    this.logPath =
+      options.logPath ||
+      join(process.cwd(), "data", "webhook-deliveries.jsonl");
+    this.logRetentionMs = options.logRetentionMs ?? 0;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.initialDelayMs = options.initialDelayMs ?? 1000;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.addressPolicy = {
+      blockPrivateAddresses: options.blockPrivateAddresses ?? true,
+      allowedHosts: options.allowedHosts ?? [],
+    };
+  }
+
+  /**
+   * Whether a signing secret is available
+   */
+  isConfigured(): boolean {
+    return !!this.secret;
+  }
+
+  /**
+   * Compute the signature header value for a payload
+   * @param timestamp - Unix timestamp (seconds) sent in X-Webhook-Timestamp
+   * @param body - Raw JSON request body
+   */
+  sign(timestamp: string, body: string): string {
+    if (!this.secret) {
+      throw new Error(
+        "WEBHOOK_SECRET environment variable is required to send webhooks"
+      );
+    }
+    const hmac = createHmac("sha256", this.secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    return `sha256=${hmac}`;
+  }
+
+  /**
+   * POST a payload to the callback URL, retrying with exponential backoff and
+   * jitter on network errors, timeouts, 408, 429 and 5xx responses.
+   * Never throws; the outcome is returned and logged.
+   * @param url - Callback URL supplied by the client
+   * @param payload - JSON-serializable body
+   * @param requestId - Request or job ID the payload belongs to
+   * @param clientId - API key client the request belongs to, for the log
+   */
+  async deliver(
+    url: string,
+    payload: unknown,
+    requestId: string,
+    clientId?: string
+  ): Promise<WebhookDeliveryResult> {
+    const deliveryId = `whd-${randomUUID()}`;
+    const body = JSON.stringify(payload);
+    const log = createChildLogger({ requestId, deliveryId, url });
+
+    let lastStatusCode: number | undefined;
+    let lastError: string | undefined;
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      const attemptStart = Date.now();
+      let retryable = true;
+
+      try {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const status = await this.post(url, body, {
+          "Content-Type": "application/json",
+          "User-Agent": "api-audio-transcript-webhook/1.0",
+          "X-Webhook-Id": deliveryId,
+          "X-Webhook-Timestamp": timestamp,
+          "X-Webhook-Signature": this.sign(timestamp, body),
+        });
+
+        lastStatusCode = status;
+        lastError =
+          status >= 200 && status < 300 ? undefined : `HTTP ${status}`;
+        retryable = status >= 500 || status === 408 || status === 429;
+      } catch (error) {
+        lastStatusCode = undefined;
+        lastError = error instanceof Error ? error.message : "Unknown error";
+        // The address won't change between attempts
+        retryable = !(error instanceof BlockedCallbackError);
+      }
+
+      const success = lastError === undefined;
+      await this.recordAttempt({
+        deliveryId,
+        requestId,
+        clientId,
+        url,
+        attempt,
+        timestamp: new Date(attemptStart).toISOString(),
+        success,
+        statusCode: lastStatusCode,
+        error: lastError,
+        durationMs: Date.now() - attemptStart,
+      });
+
+      if (success) {
+        log.info({ attempt, statusCode: lastStatusCode }, "Webhook delivered");
+        return {
+          deliveryId,
+          delivered: true,
+          attempts: attempt,
+          statusCode: lastStatusCode,
+        };
+      }
+
+      if (!retryable || attempt === this.maxAttempts) {
+        log.error(
+          { attempt, statusCode: lastStatusCode, error: lastError },
+          "Webhook delivery failed, giving up"
+        );
+        return {
+          deliveryId,
+          delivered: false,
+          attempts: attempt,
+          statusCode: lastStatusCode,
+          error: lastError,
+        };
+      }
+
+      // Exponential backoff (up to 1s, 2s, 4s, ...) with random jitter, so
+      // callbacks that failed together don't all retry at the same moment
+      const backoff = this.initialDelayMs * Math.pow(2, attempt - 1);
+      const delayMs = Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+      log.warn(
+        { attempt, statusCode: lastStatusCode, error: lastError, delayMs },
+        "Webhook delivery failed, retrying"
+      );
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+
+    // Only reached when maxAttempts < 1
+    return { deliveryId, delivered: false, attempts: 0, error: lastError };
+  }
+
+  /**
+   * Read all logged delivery attempts for a request or job
+   */
+  async getDeliveries(requestId: string): Promise<WebhookDeliveryAttempt[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.logPath, "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return this.parseLog(raw).filter((entry) => entry.requestId === requestId);
+  }
+
+  /**
+   * Parse the delivery log, skipping lines that aren't valid JSON (e.g. one
+   * torn by a crash mid-append) instead of failing the whole read
+   */
+  private parseLog(raw: string): WebhookDeliveryAttempt[] {
+    const entries: WebhookDeliveryAttempt[] = [];
+    let skippedLines = 0;
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as WebhookDeliveryAttempt);
+      } catch {
+        skippedLines++;
+      }
+    }
+
+    if (skippedLines > 0) {
+      this.serviceLogger.warn(
+        { skippedLines, logPath: this.logPath },
+        "Skipped unparsable lines in webhook delivery log"
+      );
+    }
+    return entries;
+  }
+
+  /**
+   * Check a client-supplied callback URL before accepting the request
+   * @returns An error message, or null if the URL is acceptable
+   */
+  async validateCallbackUrl(callbackUrl: string): Promise<string | null> {
+    let parsed: URL;
+    try {
+      parsed = new URL(callbackUrl);
+    } catch {
+      return "callbackUrl must be a valid absolute URL";
+    }
+
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return "callbackUrl must use http or https";
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname)
+        ? [hostname]
+        : (await dnsLookup(hostname, { all: true })).map((a) => a.address);
+    } catch {
+      return `callbackUrl host ${hostname} could not be resolved`;
+    }
+    if (
+      addresses.some((address) =>
+        isBlockedAddress(hostname, address, this.addressPolicy)
+      )
+    ) {
+      return new BlockedCallbackError(hostname).message;
+    }
+
+    return null;
+  }
+
+  /**
+   * POST a body without following redirects, connecting only to addresses
+   * the policy allows
+   * @returns The response status
+   */
+  private post(
+    url: string,
+    body: string,
+    headers: Record<string, string>
+  ): Promise<number> {
+    const target = new URL(url);
+    const client = target.protocol === "https:" ? https : http;
+
+    // Literal IPs are connected to without a DNS lookup, so check them here
+    const hostname = target.hostname.replace(/^\[|\]$/g, "");
+    if (
+      isIP(hostname) &&
+      isBlockedAddress(hostname, hostname, this.addressPolicy)
+    ) {
+      return Promise.reject(new BlockedCallbackError(hostname));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        target,
+        {
+          method: "POST",
+          headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+          lookup: createPinnedLookup(
+            this.addressPolicy,
+            (hostname) => new BlockedCallbackError(hostname)
+          ),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        },
+        (response) => {
+          // Drain the body so the connection can be reused
+          response.resume();
+          response.on("end", () => resolve(response.statusCode || 0));
+          response.on("error", reject);
+        }
+      );
+      request.on("error", reject);
+      request.end(body);
+    });
+  }
+
+  /**
+   * Append an attempt to the delivery log, trimming attempts past the
+   * retention at most once per LOG_TRIM_INTERVAL_MS
+   */
+  private recordAttempt(entry: WebhookDeliveryAttempt): Promise<void> {
+    const write = async () => {
+      try {
+        await mkdir(dirname(this.logPath), { recursive: true });
+        await appendFile(this.logPath, JSON.stringify(entry) + "\n", "utf-8");
+        if (this.logRetentionMs > 0 && Date.now() >= this.nextTrimAt) {
+          this.nextTrimAt = Date.now() + LOG_TRIM_INTERVAL_MS;
+          await this.trimLog();
+        }
+      } catch (error) {
+        this.serviceLogger.warn(
+          {
+            error: error instanceof Error ? error.message : "Unknown error",
+            logPath: this.logPath,
+          },
+          "Failed to write webhook delivery log"
+        );
+      }
+    };
+
+    this.logQueue = this.logQueue.then(write);
+    return this.logQueue;
+  }
+
+  /**
+   * Rewrite the delivery log without attempts older than the retention,
+   * through a temporary file so a crash never truncates it
+   */
+  private async trimLog(): Promise<void> {
+    const entries = this.parseLog(await readFile(this.logPath, "utf-8"));
+    const cutoff = Date.now() - this.logRetentionMs;
+    const kept = entries.filter(
+      (entry) => Date.parse(entry.timestamp) > cutoff
+    );
+    if (kept.length === entries.length) {
+      return;
+    }
+
+    const tempPath = `${this.logPath}.tmp`;
+    await writeFile(
+      tempPath,
+      kept.map((entry) => JSON.stringify(entry) + "\n").join(""),
+      "utf-8"
+    );
+    await rename(tempPath, this.logPath);
+    this.serviceLogger.info(
+      { trimmedCount: entries.length - kept.length, logPath: this.logPath },
+      "Trimmed webhook delivery log"
+    );
+  }
+}
@@ -0,0 +1,187 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for splitting long recordings
+ * Checks where planChunks puts split points, including silences exactly at
+ * the edges of the search window, and which repeated words
+ * removeOverlapDuplicate drops at chunk seams, including short runs that
+ * only repeat by chance. No OpenAI calls are made.
+ */
+
+import {
+  parseSilenceDetectOutput,
+  planChunks,
+  removeOverlapDuplicate,
+} from "./utils/chunking.js";
+import logger from "./utils/logger.js";
+
+// The values the transcription service uses
+const PLAN_OPTIONS = { toleranceSec: 30, overlapSec: 2 };
+
+// Duration, target chunk length, silences, and the expected plan
+const PLAN_CASES = [
+  {
+    name: "exactly one chunk long",
+    duration: 300,
+    target: 300,
+    silences: [],
+    expected: [{ start: 0, end: 300, overlapBefore: 0 }],
+  },
+  {
+    name: "just over one chunk, no silence",
+    duration: 300.5,
+    target: 300,
+    silences: [],
+    expected: [
+      { start: 0, end: 300, overlapBefore: 0 },
+      { start: 298, end: 300.5, overlapBefore: 2 },
+    ],
+  },
+  {
+    name: "silence centred on the target",
+    duration: 400,
+    target: 300,
+    silences: [{ start: 299, end: 301 }],
+    expected: [
+      { start: 0, end: 300, overlapBefore: 0 },
+      { start: 300, end: 400, overlapBefore: 0 },
+    ],
+  },
+  {
+    name: "silence centred on the start of the window",
+    duration: 400,
+    target: 300,
+    silences: [{ start: 269, end: 271 }],
+    expected: [
+      { start: 0, end: 270, overlapBefore: 0 },
+      { start: 270, end: 400, overlapBefore: 0 },
+    ],
+  },
+  {
+    name: "silences just outside the window",
+    duration: 400,
+    target: 300,
+    silences: [
+      { start: 268, end: 271.9 },
+      { start: 300, end: 301 },
+    ],
+    expected: [
+      { start: 0, end: 300, overlapBefore: 0 },
+      { start: 298, end: 400, overlapBefore: 2 },
+    ],
+  },
+  {
+    name: "latest silence in the window wins",
+    duration: 700,
+    target: 300,
+    silences: [
+      { start: 280, end: 282 },
+      { start: 290, end: 292 },
+      { start: 580, end: 582 },
+    ],
+    expected: [
+      { start: 0, end: 291, overlapBefore: 0 },
+      { start: 291, end: 581, overlapBefore: 0 },
+      { start: 581, end: 700, overlapBefore: 0 },
+    ],
+  },
+];
+
+// Previous chunk's text, next chunk's text, and the next text once the
+// words repeated from the previous chunk are dropped
+const OVERLAP_CASES = [
+  // Real overlaps
+  [
+    "we went to the store and bought",
+    "to the store and bought some milk",
+    "some milk",
+  ],
+  [
+    "She said hello world",
+    "She said, hello world. How are you?",
+    "How are you?",
+  ],
+  // Words cut off at both seams
+  [
+    "we walked down to the big old store yest",
+    "uh to the big old store yesterday and bought milk",
+    "yesterday and bought milk",
+  ],
+  // Short runs that repeat by chance
+  ["I said yes it is", "it is what it is", "it is what it is"],
+  ["part 1 words here.", "part 2 words here.", "part 2 words here."],
+  // Nothing in common
+  ["the meeting is over", "next item on the agenda", "next item on the agenda"],
+  ["", "first words", "first words"],
+];
+
+async function testChunking() {
+  logger.info("=== Starting Chunking Test ===");
+
+  const failures = [];
+
+  try {
+    for (const { name, duration, target, silences, expected } of PLAN_CASES) {
+      const plan = planChunks(duration, target, silences, PLAN_OPTIONS);
+      logger.info({ name, plan }, "Chunk plan");
+      if (JSON.stringify(plan) !== JSON.stringify(expected)) {
+        failures.push(
+          `${name}: planned ${JSON.stringify(plan)}, expected ${JSON.stringify(
+            expected
+          )}`
+        );
+      }
+      if (plan.some((chunk) => chunk.end - chunk.start > target)) {
+        failures.push(`${name}: a chunk is longer than the target`);
+      }
+    }
+
+    for (const [previous, next, expected] of OVERLAP_CASES) {
+      const result = removeOverlapDuplicate(previous, next);
+      if (result !== expected) {
+        failures.push(
+          `removeOverlapDuplicate("${previous}", "${next}") returned "${result}", expected "${expected}"`
+        );
+      }
+    }
+
+    const silences = parseSilenceDetectOutput(
+      [
+        "[silencedetect @ 0x1] silence_start: -0.01",
+        "[silencedetect @ 0x1] silence_end: 1.5 | silence_duration: 1.51",
+        "size=N/A time=00:00:10.00 bitrate=N/A",
+        "[silencedetect @ 0x1] silence_start: 8.25",
+        "[silencedetect @ 0x1] silence_end: 9 | silence_duration: 0.75",
+        "[silencedetect @ 0x1] silence_start: 9.5",
+      ].join("\n")
+    );
+    logger.info({ silences }, "Parsed silences");
+    if (
+      JSON.stringify(silences) !==
+      JSON.stringify([
+        { start: 0, end: 1.5 },
+        { start: 8.25, end: 9 },
+      ])
+    ) {
+      failures.push(`parsed silences ${JSON.stringify(silences)}`);
+    }
+
+    if (failures.length > 0) {
+      logger.error({ failures }, "Chunking test failed");
+      process.exitCode = 1;
+    } else {
+      logger.info("Chunking test successful!");
+    }
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Test failed with error"
+    );
+    process.exitCode = 1;
+  }
+}
+
+testChunking();
@@ -0,0 +1,158 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for speaker labels across diarized chunks
+ * Checks how matchChunkSpeakers maps a chunk's labels onto the recording's:
+ * through reference clips, through who was speaking in the audio shared with
+ * the previous chunk, and to fresh labels for speakers heard for the first
+ * time. No OpenAI calls are made.
+ */
+
+import { matchChunkSpeakers } from "./utils/diarization.js";
+import logger from "./utils/logger.js";
+
+// The previous chunk ends at 10s; the next one starts at 8s
+const OVERLAP = { start: 8, end: 10 };
+const PREVIOUS_SEGMENTS = [
+  { start: 0, end: 5, text: "Good morning everyone.", speaker: "A" },
+  { start: 5, end: 10, text: "Morning. Shall we start?", speaker: "B" },
+];
+
+const ALPHABET = Array.from({ length: 26 }, (_, i) =>
+  String.fromCharCode(65 + i)
+);
+
+// Chunk segments (absolute times), context, and the expected mapping
+const CASES = [
+  {
+    name: "labels swapped by the model are matched through the overlap",
+    segments: [
+      { start: 8, end: 10, text: "Shall we start?", speaker: "A" },
+      { start: 10, end: 14, text: "Yes, first item.", speaker: "B" },
+    ],
+    context: {
+      referenceLabels: {},
+      previousSegments: PREVIOUS_SEGMENTS,
+      overlap: OVERLAP,
+      usedLabels: ["A", "B"],
+    },
+    expected: { A: "B", B: "C" },
+  },
+  {
+    name: "new speakers get the next free labels",
+    segments: [
+      { start: 8, end: 10, text: "Shall we start?", speaker: "A" },
+      { start: 10, end: 12, text: "Sorry I'm late.", speaker: "B" },
+      { start: 12, end: 14, text: "Me too.", speaker: "C" },
+    ],
+    context: {
+      referenceLabels: {},
+      previousSegments: PREVIOUS_SEGMENTS,
+      overlap: OVERLAP,
+      usedLabels: ["A", "B"],
+    },
+    expected: { A: "B", B: "C", C: "D" },
+  },
+  {
+    name: "reference clips win over the overlap",
+    segments: [
+      { start: 8, end: 10, text: "Shall we start?", speaker: "ref:A" },
+      { start: 10, end: 14, text: "Yes.", speaker: "B" },
+    ],
+    context: {
+      referenceLabels: { "ref:A": "A" },
+      previousSegments: PREVIOUS_SEGMENTS,
+      overlap: OVERLAP,
+      usedLabels: ["A", "B"],
+    },
+    expected: { "ref:A": "A", B: "C" },
+  },
+  {
+    name: "the stronger of two overlap matches takes the label",
+    segments: [
+      { start: 8, end: 9.5, text: "Shall we", speaker: "A" },
+      { start: 9.5, end: 10, text: "start?", speaker: "B" },
+    ],
+    context: {
+      referenceLabels: {},
+      previousSegments: PREVIOUS_SEGMENTS,
+      overlap: OVERLAP,
+      usedLabels: ["A", "B"],
+    },
+    expected: { A: "B", B: "C" },
+  },
+  {
+    name: "less than half a second of shared speech is no match",
+    segments: [{ start: 9.7, end: 12, text: "start? Yes.", speaker: "A" }],
+    context: {
+      referenceLabels: {},
+      previousSegments: PREVIOUS_SEGMENTS,
+      overlap: OVERLAP,
+      usedLabels: ["A", "B"],
+    },
+    expected: { A: "C" },
+  },
+  {
+    name: "without an overlap every unknown label is new",
+    segments: [
+      { start: 10, end: 12, text: "Hello.", speaker: "A" },
+      { start: 12, end: 14, text: "Hi.", speaker: "B" },
+    ],
+    context: {
+      referenceLabels: {},
+      previousSegments: PREVIOUS_SEGMENTS,
+      overlap: null,
+      usedLabels: ["A", "B"],
+    },
+    expected: { A: "C", B: "D" },
+  },
+  {
+    name: "labels continue after Z, and unlabelled segments get one",
+    segments: [{ start: 10, end: 12, text: "Hello." }],
+    context: {
+      referenceLabels: {},
+      previousSegments: [],
+      overlap: null,
+      usedLabels: ALPHABET,
+    },
+    expected: { unknown: "AA" },
+  },
+];
+
+async function testDiarization() {
+  logger.info("=== Starting Diarization Test ===");
+
+  const failures = [];
+
+  try {
+    for (const { name, segments, context, expected } of CASES) {
+      const mapping = matchChunkSpeakers(segments, context);
+      logger.info({ name, mapping }, "Speaker mapping");
+      if (JSON.stringify(mapping) !== JSON.stringify(expected)) {
+        failures.push(
+          `${name}: mapped ${JSON.stringify(
+            mapping
+          )}, expected ${JSON.stringify(expected)}`
+        );
+      }
+    }
+
+    if (failures.length > 0) {
+      logger.error({ failures }, "Diarization test failed");
+      process.exitCode = 1;
+    } else {
+      logger.info("Diarization test successful!");
+    }
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Test failed with error"
+    );
+    process.exitCode = 1;
+  }
+}
+
+testDiarization();
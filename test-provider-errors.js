@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for provider error handling
+ * Replays a checked-in fixture (PROVIDER_MODE=replay) and injects each
+ * simulated provider fault (PROVIDER_FAULT=...), checking the HTTP status and
+ * error code every failure is reported with. No OpenAI calls are made.
+ *
+ * The fixture in test-fixtures/providers is synthetic: the sample below is
+ * silence, and its text is made up. It was written with PROVIDER_MODE=record
+ * while OPENAI_BASE_URL pointed at a local stub that answers every
+ * transcription with EXPECTED_TEXT. Its file name and "key" are the SHA-256
+ * of the JSON of the provider ("openai"), the operation and its "request"
+ * fields, in that order, and "audioSha256" is the SHA-256 of the sample's
+ * bytes. Write it again the same way if the key format or the default model
+ * changes.
+ */
+
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { TranscriptionService } from "./services/transcription-service.js";
+import { loadConfig } from "./utils/config.js";
+import { ApiError } from "./utils/errors.js";
+import logger from "./utils/logger.js";
+
+const FIXTURES_DIR = join(
+  dirname(fileURLToPath(import.meta.url)),
+  "test-fixtures",
+  "providers"
+);
+const EXPECTED_TEXT = "Hello from the replay fixture.";
+
+// Every fault the fault injection provider can simulate
+const FAULT_CASES = [
+  { fault: "rate_limit", status: 429, code: "upstream_rate_limited" },
+  { fault: "timeout", status: 504, code: "upstream_timeout" },
+  { fault: "auth", status: 502, code: "upstream_auth_failed" },
+  { fault: "corrupted_file", status: 415, code: "unsupported_media" },
+];
+
+/**
+ * A tenth of a second of 16 kHz mono silence. The bytes never change, so
+ * the fixture written for them keeps matching.
+ */
+function createSilentWav() {
+  const dataSize = 3200;
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write("RIFF", 0);
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write("WAVE", 8);
+  wav.write("fmt ", 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // Mono
+  wav.writeUInt32LE(16000, 24);
+  wav.writeUInt32LE(32000, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36);
+  wav.writeUInt32LE(dataSize, 40);
+  return wav;
+}
+
+/**
+ * A service whose providers are configured from these settings only, so the
+ * caller's environment and config file can't change the fixture key
+ */
+function createService(settings) {
+  const config = loadConfig({
+    PROVIDER_MODE: "replay",
+    PROVIDER_FIXTURES_DIR: FIXTURES_DIR,
+    UPSTREAM_MAX_RETRIES: "0",
+    ...settings,
+  });
+  return new TranscriptionService(config);
+}
+
+async function testProviderErrors() {
+  logger.info("=== Starting Provider Error Test ===");
+
+  const workDir = await mkdtemp(join(tmpdir(), "provider-errors-test-"));
+  const failures = [];
+
+  try {
+    const audioPath = join(workDir, "sample.wav");
+    await writeFile(audioPath, createSilentWav());
+
+    // Without a fault the recorded response is replayed
+    try {
+      const text = await createService({}).transcribe(audioPath);
+      logger.info({ text }, "Replayed transcription");
+      if (text !== EXPECTED_TEXT) {
+        failures.push(`Replayed text was "${text}", not "${EXPECTED_TEXT}"`);
+      }
+    } catch (error) {
+      failures.push(
+        `Replay failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    for (const { fault, status, code } of FAULT_CASES) {
+      const service = createService({
+        PROVIDER_FAULT: fault,
+        PROVIDER_FAULT_DELAY_MS: "0",
+      });
+
+      try {
+        await service.transcribe(audioPath);
+        failures.push(`${fault}: transcription succeeded`);
+      } catch (error) {
+        if (!(error instanceof ApiError)) {
+          failures.push(
+            `${fault}: expected an ApiError, got ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+          continue;
+        }
+
+        logger.info(
+          { fault, status: error.status, code: error.code },
+          "Fault reported"
+        );
+        if (error.status !== status) {
+          failures.push(`${fault}: status ${error.status}, not ${status}`);
+        }
+        if (error.code !== code) {
+          failures.push(`${fault}: code "${error.code}", not "${code}"`);
+        }
+        // The simulated 429 carries Retry-After: 1
+        if (fault === "rate_limit" && error.retryAfterSeconds !== 1) {
+          failures.push(
+            `${fault}: retryAfterSeconds ${error.retryAfterSeconds}, not 1`
+          );
+        }
+      }
+    }
+
+    if (failures.length > 0) {
+      logger.error({ failures }, "Provider error test failed");
+      process.exitCode = 1;
+    } else {
+      logger.info("Provider error test successful!");
+    }
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Test failed with error"
+    );
+    process.exitCode = 1;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+testProviderErrors();
@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for the remote audio address filter
+ * Checks which literal addresses count as private, in every IPv6 spelling
+ * that embeds an IPv4 address, then downloads from a local server whose
+ * redirects point at private hosts. No OpenAI calls are made.
+ */
+
+import { createServer } from "http";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { downloadAudio, isPrivateAddress } from "./utils/remote-audio.js";
+import logger, { createChildLogger } from "./utils/logger.js";
+
+// Address, and whether it must be refused
+const ADDRESS_CASES = [
+  ["127.0.0.1", true],
+  ["10.1.2.3", true],
+  ["172.16.0.1", true],
+  ["192.168.1.1", true],
+  ["169.254.169.254", true],
+  ["100.64.0.1", true],
+  ["0.0.0.0", true],
+  ["8.8.8.8", false],
+  ["::", true],
+  ["::1", true],
+  ["fe80::1", true],
+  ["fd00::1", true],
+  ["2606:4700::1111", false],
+  // IPv4-mapped
+  ["::ffff:127.0.0.1", true],
+  ["::ffff:7f00:1", true],
+  ["0:0:0:0:0:ffff:a9fe:a9fe", true],
+  ["::ffff:8.8.8.8", false],
+  // IPv4-compatible
+  ["::127.0.0.1", true],
+  ["::7f00:1", true],
+  ["::a00:1", true],
+  ["::808:808", false],
+  // NAT64
+  ["64:ff9b::127.0.0.1", true],
+  ["64:ff9b::a9fe:a9fe", true],
+  ["64:ff9b::808:808", false],
+  // 6to4
+  ["2002:7f00:1::", true],
+  ["2002:a9fe:a9fe::1", true],
+  ["2002:c0a8:101:1::1", true],
+  ["2002:808:808::1", false],
+  // Teredo, with the client address inverted
+  ["2001:0:4136:e378:8000:63bf:80ff:fffe", true],
+  ["2001:0:4136:e378:8000:63bf:f7f7:f7f7", false],
+  // Site-local and documentation
+  ["fec0::1", true],
+  ["2001:db8::1", true],
+  // Not an IP address
+  ["localhost", true],
+];
+
+async function testRemoteAudio() {
+  logger.info("=== Starting Remote Audio Test ===");
+
+  const workDir = await mkdtemp(join(tmpdir(), "remote-audio-test-"));
+  const log = createChildLogger({ test: "remote-audio" });
+  const failures = [];
+  const audioRequests = [];
+
+  // Serves audio at /audio; /redirect?to=<url> redirects anywhere
+  const origin = createServer((req, res) => {
+    const url = new URL(req.url, "http://origin");
+    if (url.pathname === "/redirect") {
+      res.writeHead(302, { location: url.searchParams.get("to") });
+      res.end();
+      return;
+    }
+    audioRequests.push(req.headers.host);
+    res.writeHead(200, { "content-type": "audio/mpeg" });
+    res.end(Buffer.alloc(1024));
+  });
+
+  try {
+    for (const [address, expected] of ADDRESS_CASES) {
+      if (isPrivateAddress(address) !== expected) {
+        failures.push(
+          `${address} was ${expected ? "allowed" : "refused"}, expected ${
+            expected ? "refused" : "allowed"
+          }`
+        );
+      }
+    }
+
+    await new Promise((resolve) => origin.listen(0, "127.0.0.1", resolve));
+    const { port } = origin.address();
+    const base = `http://127.0.0.1:${port}`;
+    logger.info({ base }, "Local origin listening");
+
+    // Only the origin itself is allowlisted, so redirects can't borrow it
+    const options = {
+      maxBytes: 1024 * 1024,
+      timeoutMs: 5000,
+      maxRedirects: 3,
+      blockPrivateAddresses: true,
+      allowedHosts: ["127.0.0.1"],
+      tempDir: workDir,
+    };
+
+    // Signed URLs carry tokens in the query, which must not be logged
+    const logged = [];
+    const recordingLog = {
+      info: (fields) => logged.push(JSON.stringify(fields)),
+      debug: (fields) => logged.push(JSON.stringify(fields)),
+    };
+    const download = await downloadAudio(
+      `${base}/audio?token=secret-token`,
+      recordingLog,
+      options
+    );
+    logger.info({ download, logged }, "Allowlisted download");
+    if (audioRequests.length !== 1) {
+      failures.push("allowlisted origin could not be downloaded from");
+    }
+    if (logged.some((line) => line.includes("secret-token"))) {
+      failures.push("the audio URL's query string was logged");
+    }
+
+    const blockedTargets = [
+      `http://localhost:${port}/audio`,
+      `http://[::ffff:127.0.0.1]:${port}/audio`,
+      `http://[::127.0.0.1]:${port}/audio`,
+      `http://[2002:7f00:1::]:${port}/audio`,
+      `http://[2001:0:4136:e378:8000:63bf:80ff:fffe]:${port}/audio`,
+      "http://169.254.169.254/latest/meta-data/",
+    ];
+    for (const target of blockedTargets) {
+      for (const url of [
+        target,
+        `${base}/redirect?to=${encodeURIComponent(target)}`,
+      ]) {
+        try {
+          await downloadAudio(url, log, options);
+          failures.push(`${url} was downloaded`);
+        } catch (error) {
+          if (error.status !== 400 || error.code !== "invalid_audio_url") {
+            failures.push(
+              `${url} failed with ${error.status} ${error.code}: ${error.message}`
+            );
+          }
+        }
+      }
+    }
+
+    logger.info({ audioRequests }, "Audio requests received");
+    if (audioRequests.length !== 1) {
+      failures.push("a private redirect target was reached");
+    }
+
+    if (failures.length > 0) {
+      logger.error({ failures }, "Remote audio test failed");
+      process.exitCode = 1;
+    } else {
+      logger.info("Remote audio test successful!");
+    }
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Test failed with error"
+    );
+    process.exitCode = 1;
+  } finally {
+    origin.close();
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+testRemoteAudio();
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for subtitle output
+ * Builds cues from hand-made segments and checks the readability rules: line
+ * and cue length, sentence splits, the minimum duration and reading speed,
+ * merging and pushing back cues during fast speech, and the SRT and WebVTT
+ * formats. No OpenAI calls are made.
+ */
+
+import {
+  DEFAULT_SUBTITLE_RULES,
+  buildSubtitleCues,
+  renderSubtitles,
+} from "./utils/subtitles.js";
+import logger from "./utils/logger.js";
+
+const RULES = DEFAULT_SUBTITLE_RULES;
+
+// Allow for floating point error when comparing times
+const EPSILON = 1e-9;
+
+/**
+ * Problems with cues that every rule set must avoid
+ */
+function checkCues(name, cues, failures) {
+  cues.forEach((cue, i) => {
+    const chars = cue.lines.join(" ").length;
+    const required = Math.min(
+      RULES.maxCueDurationSec,
+      Math.max(RULES.minCueDurationSec, chars / RULES.maxCharsPerSecond)
+    );
+    const duration = cue.end - cue.start;
+
+    if (cue.lines.length > RULES.maxLinesPerCue) {
+      failures.push(`${name}: cue ${i} has ${cue.lines.length} lines`);
+    }
+    for (const line of cue.lines) {
+      if (line.length > RULES.maxCharsPerLine) {
+        failures.push(`${name}: cue ${i} line "${line}" is too long`);
+      }
+    }
+    if (duration < required - EPSILON) {
+      failures.push(
+        `${name}: cue ${i} is shown ${duration.toFixed(
+          3
+        )}s, needs ${required.toFixed(3)}s`
+      );
+    }
+    if (duration > RULES.maxCueDurationSec + EPSILON) {
+      failures.push(`${name}: cue ${i} is shown ${duration.toFixed(3)}s`);
+    }
+    if (i > 0 && cue.start < cues[i - 1].end - EPSILON) {
+      failures.push(`${name}: cue ${i} overlaps the one before it`);
+    }
+  });
+}
+
+async function testSubtitles() {
+  logger.info("=== Starting Subtitle Test ===");
+
+  const failures = [];
+
+  try {
+    // One long segment is split over several cues
+    const longText =
+      "This is a long stretch of speech without any pauses that goes on and on " +
+      "well past what fits on two lines of a single subtitle cue and then " +
+      "keeps going for a while longer still";
+    const longCues = buildSubtitleCues(
+      [{ start: 0, end: 12, text: longText }],
+      RULES
+    );
+    logger.info({ longCues }, "Long segment");
+    checkCues("long segment", longCues, failures);
+    if (longCues.length < 2) {
+      failures.push("long segment: was not split");
+    }
+    const longWords = longCues.flatMap((cue) => cue.lines.join(" ").split(" "));
+    if (longWords.join(" ") !== longText) {
+      failures.push("long segment: words were lost or reordered");
+    }
+
+    // Sentence ends close a cue once it has been shown long enough
+    const sentenceCues = buildSubtitleCues(
+      [
+        {
+          start: 0,
+          end: 4,
+          text: "The first sentence ends here. A second one follows.",
+        },
+      ],
+      RULES
+    );
+    logger.info({ sentenceCues }, "Two sentences");
+    checkCues("sentences", sentenceCues, failures);
+    if (sentenceCues.length !== 2) {
+      failures.push(`sentences: ${sentenceCues.length} cues, not 2`);
+    }
+
+    // A very short cue is extended to the minimum duration
+    const shortCues = buildSubtitleCues(
+      [{ start: 5, end: 5.2, text: "Hi." }],
+      RULES
+    );
+    logger.info({ shortCues }, "Short segment");
+    checkCues("short segment", shortCues, failures);
+    if (shortCues[0]?.start !== 5) {
+      failures.push("short segment: start moved without a cue before it");
+    }
+
+    // Two quick replies are merged into one cue instead of flashing by
+    const replyCues = buildSubtitleCues(
+      [
+        { start: 0, end: 0.3, text: "Yes." },
+        { start: 0.3, end: 0.6, text: "No." },
+      ],
+      RULES
+    );
+    logger.info({ replyCues }, "Quick replies");
+    checkCues("quick replies", replyCues, failures);
+    if (replyCues.length !== 1 || replyCues[0].lines.join(" ") !== "Yes. No.") {
+      failures.push("quick replies: were not merged into one cue");
+    }
+
+    // Fast speech: lines too long to merge, one after another. Later cues
+    // are pushed back so each can be read, and none overlap.
+    const fastSegments = Array.from({ length: 6 }, (_, i) => ({
+      start: i * 0.5,
+      end: i * 0.5 + 0.5,
+      text: `Sentence number ${i} is spoken far too quickly to read.`,
+    }));
+    const fastCues = buildSubtitleCues(fastSegments, RULES);
+    logger.info({ fastCues }, "Fast speech");
+    checkCues("fast speech", fastCues, failures);
+    if (fastCues.length !== fastSegments.length) {
+      failures.push(
+        `fast speech: ${fastCues.length} cues, not ${fastSegments.length}`
+      );
+    }
+    if (fastCues[fastCues.length - 1]?.start <= fastSegments[5].start) {
+      failures.push("fast speech: later cues were not pushed back");
+    }
+
+    // Output formats
+    const segments = [{ start: 1.5, end: 3.25, text: "Hello there." }];
+    const srt = renderSubtitles(segments, "srt", RULES);
+    const vtt = renderSubtitles(segments, "vtt", RULES);
+    logger.info({ srt, vtt }, "Rendered subtitles");
+    if (srt !== "1\n00:00:01,500 --> 00:00:03,250\nHello there.\n") {
+      failures.push(`srt: unexpected output ${JSON.stringify(srt)}`);
+    }
+    if (vtt !== "WEBVTT\n\n00:00:01.500 --> 00:00:03.250\nHello there.\n") {
+      failures.push(`vtt: unexpected output ${JSON.stringify(vtt)}`);
+    }
+
+    // Segments without words produce no cues
+    if (buildSubtitleCues([{ start: 0, end: 1, text: "  " }], RULES).length) {
+      failures.push("empty segment: produced a cue");
+    }
+
+    if (failures.length > 0) {
+      logger.error({ failures }, "Subtitle test failed");
+      process.exitCode = 1;
+    } else {
+      logger.info("Subtitle test successful!");
+    }
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Test failed with error"
+    );
+    process.exitCode = 1;
+  }
+}
+
+testSubtitles();
@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for transliteration
+ * Converts Hindi, Urdu, Bengali, Tamil and mixed-script text into several
+ * scripts and checks that script names outside the supported list are
+ * refused, including names Sanscript itself knows. No OpenAI calls are made.
+ */
+
+import {
+  isTransliterationScript,
+  transliterate,
+  urduToDevanagari,
+} from "./utils/transliteration.js";
+import logger from "./utils/logger.js";
+
+// Text, script, and the expected transliteration
+const CASES = [
+  ["हम बाज़ार जा रहे हैं", "latin", "ham bazar ja rahe hain"],
+  ["नमस्ते दुनिया", "iast", "namaste duniyā"],
+  ["नमस्ते दुनिया", "bengali", "নমস্তে দুনিযা"],
+  ["অম্মা", "devanagari", "अम्मा"],
+  ["அம்மா", "latin", "amma"],
+  // Urdu is normalized to Devanagari, short vowels and all
+  ["کمال", "devanagari", "कमाल"],
+  ["پاکستان", "devanagari", "पाकसतान"],
+  ["یہ ہے۔", "devanagari", "यह है।"],
+  // Text in other scripts is kept, danda becomes a full stop in Latin
+  ["hello नमस्ते world", "latin", "hello namaste world"],
+  ["यह है। ठीक", "latin", "yah hai. thik"],
+  ["", "latin", ""],
+];
+
+// Not in the supported list, whether Sanscript knows them or not
+const UNKNOWN_SCRIPTS = [
+  "cyrillic",
+  "Devanagari",
+  "urdu",
+  "klingon",
+  "",
+  "toString",
+];
+
+async function testTransliteration() {
+  logger.info("=== Starting Transliteration Test ===");
+
+  const failures = [];
+
+  try {
+    for (const [text, script, expected] of CASES) {
+      const result = transliterate(text, script);
+      if (result !== expected) {
+        failures.push(
+          `transliterate("${text}", "${script}") returned "${result}", expected "${expected}"`
+        );
+      }
+    }
+
+    const normalized = urduToDevanagari("hello کمال!");
+    if (normalized !== "hello कमाल!") {
+      failures.push(`urduToDevanagari returned "${normalized}"`);
+    }
+
+    for (const script of UNKNOWN_SCRIPTS) {
+      if (isTransliterationScript(script)) {
+        failures.push(`"${script}" was accepted as a script`);
+      }
+      try {
+        const result = transliterate("नमस्ते", script);
+        failures.push(`transliterate to "${script}" returned "${result}"`);
+      } catch (error) {
+        if (
+          !(error instanceof Error) ||
+          error.message !== `Unknown transliteration script: ${script}`
+        ) {
+          failures.push(
+            `transliterate to "${script}" failed with ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        }
+      }
+    }
+
+    if (failures.length > 0) {
+      logger.error({ failures }, "Transliteration test failed");
+      process.exitCode = 1;
+    } else {
+      logger.info("Transliteration test successful!");
+    }
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Test failed with error"
+    );
+    process.exitCode = 1;
+  }
+}
+
+testTransliteration();
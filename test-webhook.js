@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+/**
+ * Test script for webhook delivery
+ * Starts a local HTTP receiver, delivers a signed payload to it and checks the
+ * signature, the retry behaviour and the delivery log, including a log whose
+ * last line was torn by a crash. No OpenAI calls are made.
+ */
+
+import { createServer } from "http";
+import { createHmac } from "crypto";
+import { appendFile, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { WebhookService } from "./services/webhook-service.js";
+import logger from "./utils/logger.js";
+
+const SECRET = "test-webhook-secret";
+
+async function testWebhook() {
+  logger.info("=== Starting Webhook Test ===");
+
+  const workDir = await mkdtemp(join(tmpdir(), "webhook-test-"));
+  const received = [];
+  let requestCount = 0;
+
+  // Receiver fails the first request to exercise the retry path
+  const receiver = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requestCount++;
+      const timestamp = req.headers["x-webhook-timestamp"];
+      const expected =
+        "sha256=" +
+        createHmac("sha256", SECRET)
+          .update(`${timestamp}.${body}`)
+          .digest("hex");
+      received.push({
+        signatureValid: req.headers["x-webhook-signature"] === expected,
+        body: JSON.parse(body),
+      });
+      res.statusCode = requestCount === 1 ? 503 : 200;
+      res.end();
+    });
+  });
+
+  try {
+    await new Promise((resolve) => receiver.listen(0, "127.0.0.1", resolve));
+    const { port } = receiver.address();
+    const url = `http://127.0.0.1:${port}/callback`;
+    logger.info({ url }, "Local receiver listening");
+
+    const webhookService = new WebhookService({
+      secret: SECRET,
+      logPath: join(workDir, "deliveries.jsonl"),
+      initialDelayMs: 100,
+      maxAttempts: 3,
+      // The receiver is on loopback, which callbacks may not reach by default
+      allowedHosts: ["127.0.0.1"],
+    });
+
+    const payload = {
+      text: "hello world",
+      requestId: "req-webhook-test",
+      model: "gpt-4o-mini-transcribe",
+    };
+    const result = await webhookService.deliver(
+      url,
+      payload,
+      payload.requestId
+    );
+    // A crash mid-append leaves half a line behind
+    await appendFile(
+      join(workDir, "deliveries.jsonl"),
+      '{"deliveryId":"whd-torn","requestId":"req-web'
+    );
+    const deliveries = await webhookService.getDeliveries(payload.requestId);
+
+    logger.info({ result }, "Delivery result");
+    logger.info({ deliveries }, "Delivery log");
+
+    // Without the allowlist, loopback callbacks are refused up front and
+    // never attempted more than once
+    const strictService = new WebhookService({
+      secret: SECRET,
+      logPath: join(workDir, "strict-deliveries.jsonl"),
+      initialDelayMs: 100,
+      maxAttempts: 3,
+    });
+    const validationError = await strictService.validateCallbackUrl(url);
+    const blocked = await strictService.deliver(url, payload, "req-blocked");
+    logger.info({ validationError, blocked }, "Loopback callback result");
+
+    const failures = [];
+    if (!result.delivered) failures.push("payload was not delivered");
+    if (result.attempts !== 2) failures.push("expected exactly one retry");
+    if (!received.every((r) => r.signatureValid))
+      failures.push("signature mismatch");
+    if (received[received.length - 1]?.body.text !== payload.text)
+      failures.push("payload body mismatch");
+    if (deliveries.length !== 2)
+      failures.push("expected two entries in the delivery log");
+    if (!validationError)
+      failures.push("loopback callbackUrl was not rejected");
+    if (blocked.delivered || blocked.attempts !== 1)
+      failures.push("loopback delivery was attempted or retried");
+    if (requestCount !== 2)
+      failures.push("loopback receiver was reached without the allowlist");
+
+    if (failures.length > 0) {
+      logger.error({ failures }, "Webhook test failed");
+      process.exitCode = 1;
+    } else {
+      logger.info("Webhook test successful!");
+    }
+  } catch (error) {
+    logger.error(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      },
+      "Test failed with error"
+    );
+    process.exitCode = 1;
+  } finally {
+    receiver.close();
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+testWebhook();
@@ -0,0 +1,168 @@
+/**
+ * A stretch of silence reported by ffmpeg's silencedetect filter, in seconds
+ */
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * A planned chunk of a long recording, in seconds from the start of the file.
+ * `overlapBefore` is how far the chunk reaches back into the previous one
+ * (0 when the split point falls in a silence).
+ */
+export interface ChunkPlan {
+  start: number;
+  end: number;
+  overlapBefore: number;
+}
+
+export interface ChunkPlanOptions {
+  toleranceSec: number; // How far before the target split point to look for silence
+  overlapSec: number; // Overlap added when no silence is found
+}
+
+/**
+ * Parse `silence_start` / `silence_end` lines from ffmpeg silencedetect output
+ */
+export function parseSilenceDetectOutput(output: string): SilenceInterval[] {
+  const silences: SilenceInterval[] = [];
+  let pendingStart: number | null = null;
+
+  for (const line of output.split("\n")) {
+    const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (startMatch) {
+      pendingStart = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+    if (endMatch && pendingStart !== null) {
+      silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+      pendingStart = null;
+    }
+  }
+
+  return silences;
+}
+
+/**
+ * Plan chunk boundaries for a recording.
+ *
+ * Each split point is placed in the middle of the silence closest to (but not
+ * after) the target chunk length, within `toleranceSec`. Chunks therefore
+ * never exceed the target length, which is what keeps them under the upload
+ * size limit. When no silence is found, the split happens at the target and
+ * the next chunk starts `overlapSec` earlier so the word cut at the seam is
+ * heard in full by one of the two chunks.
+ */
+export function planChunks(
+  duration: number,
+  targetChunkDuration: number,
+  silences: SilenceInterval[],
+  options: ChunkPlanOptions
+): ChunkPlan[] {
+  const midpoints = silences.map((s) => (s.start + s.end) / 2);
+  const chunks: ChunkPlan[] = [];
+  let start = 0;
+  let overlapBefore = 0;
+
+  while (duration - start > targetChunkDuration) {
+    const target = start + targetChunkDuration;
+    const windowStart = Math.max(
+      start + options.overlapSec,
+      target - options.toleranceSec
+    );
+    const candidates = midpoints.filter(
+      (midpoint) => midpoint >= windowStart && midpoint <= target
+    );
+
+    if (candidates.length > 0) {
+      const splitAt = Math.max(...candidates);
+      chunks.push({ start, end: splitAt, overlapBefore });
+      start = splitAt;
+      overlapBefore = 0;
+    } else {
+      chunks.push({ start, end: target, overlapBefore });
+      start = target - options.overlapSec;
+      overlapBefore = options.overlapSec;
+    }
+  }
+
+  chunks.push({ start, end: duration, overlapBefore });
+  return chunks;
+}
+
+/**
+ * Remove the words at the start of `nextText` that repeat the end of
+ * `previousText`, as happens when two chunks overlap.
+ *
+ * Words at either seam may be cut off and mis-transcribed, so the match may
+ * skip up to `maxSkippedWords` words at the end of the previous text and at
+ * the start of the next one. Short runs like "it is" repeat by chance, so a
+ * run must be at least `minMatchWords` long, plus one word for every word
+ * skipped. Matching ignores case and punctuation.
+ * @returns `nextText` without the duplicated words
+ */
+export function removeOverlapDuplicate(
+  previousText: string,
+  nextText: string,
+  maxWords: number = 30,
+  minMatchWords: number = 3,
+  maxSkippedWords: number = 2
+): string {
+  const previousWords = previousText.split(/\s+/).filter(Boolean);
+  const nextWords = nextText.split(/\s+/).filter(Boolean);
+  const normalize = (word: string) =>
+    word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+  const tail = previousWords.slice(-maxWords).map(normalize);
+  const head = nextWords.slice(0, maxWords).map(normalize);
+
+  let bestLength = 0;
+  let bestHeadEnd = 0;
+
+  // Try every alignment where the repeated run ends near the end of the
+  // previous text and starts near the beginning of the next text
+  for (let tailSkip = 0; tailSkip <= maxSkippedWords; tailSkip++) {
+    const tailEnd = tail.length - tailSkip;
+    for (let headStart = 0; headStart <= maxSkippedWords; headStart++) {
+      const maxLength = Math.min(tailEnd, head.length - headStart);
+      const minLength = minMatchWords + tailSkip + headStart;
+      for (let length = maxLength; length >= minLength; length--) {
+        if (length <= bestLength) break;
+        if (matchesRun(tail, tailEnd, head, headStart, length)) {
+          bestLength = length;
+          bestHeadEnd = headStart + length;
+          break;
+        }
+      }
+    }
+  }
+
+  if (bestLength === 0) {
+    return nextText;
+  }
+
+  return nextWords.slice(bestHeadEnd).join(" ");
+}
+
+/**
+ * Whether the `length` words ending at `tailEnd` equal the `length` words
+ * starting at `headStart`
+ */
+function matchesRun(
+  tail: string[],
+  tailEnd: number,
+  head: string[],
+  headStart: number,
+  length: number
+): boolean {
+  for (let k = 0; k < length; k++) {
+    const tailWord = tail[tailEnd - length + k];
+    const headWord = head[headStart + k];
+    if (!tailWord || tailWord !== headWord) {
+      return false;
+    }
+  }
+  return true;
+}
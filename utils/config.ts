@@ -0,0 +1,899 @@
+import { readFileSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DEFAULT_SUBTITLE_RULES, SubtitleRules } from "./subtitles.js";
+import type { FaultType } from "../services/providers/fault-injection-provider.js";
+import type { LocalWhisperApi } from "../services/providers/local-whisper-provider.js";
+
+/**
+ * OpenAI transcription models, by the mode a request asks for
+ */
+export interface OpenAIModels {
+  default: string;
+  accurate: string; // highAccuracy requests
+  timestamps: string; // Timed segments and translation
+  diarize: string;
+}
+
+/**
+ * How large recordings are converted and split before transcription
+ */
+export interface TranscriptionConfig {
+  maxFileSizeMb: number; // Largest file a provider accepts in one request
+  sampleRate: number; // WAV sample rate for conversions
+  optimizedSampleRate: number; // WAV sample rate for chunked recordings
+  minChunkSeconds: number;
+  maxChunkSeconds: number;
+  maxConcurrentChunks: number; // Chunk requests in flight per transcription
+  ffmpegTimeoutSeconds: number; // Longest a single ffmpeg run may take
+  ffprobeTimeoutSeconds: number;
+}
+
+/**
+ * How to reach each provider. A provider is only available once it is
+ * configured: openai with an API key (or in replay mode), local with a URL.
+ */
+export interface ProviderConnections {
+  openai: {
+    apiKey?: string;
+    baseUrl: string; // OpenAI or an OpenAI-compatible gateway
+  };
+  local: {
+    url?: string; // Base URL of a self-hosted Whisper server
+    api: LocalWhisperApi;
+    chatUrl?: string; // OpenAI-compatible chat server for text generation
+    chatModel?: string;
+  };
+}
+
+/**
+ * Limits shared by every call to a provider, across requests
+ */
+export interface UpstreamConfig {
+  maxConcurrent: number; // Calls in flight at once
+  requestsPerMinute: number; // 0 for no limit
+  maxRetries: number; // Retries of a transient failure
+  retryBaseMs: number; // Backoff before the first retry
+  retryMaxMs: number; // Longest wait before a retry
+}
+
+/**
+ * Record/replay and fault injection for running without live provider calls
+ */
+export interface ProviderTestingConfig {
+  mode: "live" | "record" | "replay";
+  fixturesDir: string;
+  fault?: FaultType;
+  faultRate: number; // Probability (0-1) that a call fails
+  faultDelayMs: number; // Delay before a simulated timeout
+}
+
+/**
+ * Application settings, validated once at startup
+ */
+export interface AppConfig {
+  server: {
+    port: number;
+    host: string;
+    shutdownTimeoutSeconds: number; // How long in-flight work may finish on SIGTERM/SIGINT
+  };
+  defaultProvider: string; // Provider used when a request doesn't name one
+  providers: ProviderConnections;
+  models: {
+    openai: OpenAIModels;
+    local: string; // Model requested from a local Whisper server
+  };
+  textGenerationModel: string; // Chat model for the prompt field
+  tempDir: string; // Holds this instance's working directory
+  tempFiles: {
+    maxAgeMinutes: number; // Older files are considered orphaned
+    sweepIntervalMinutes: number;
+  };
+  transcription: TranscriptionConfig;
+  auth: {
+    requireApiKey: boolean; // false turns client authentication off
+    adminApiKey?: string; // Admin routes are disabled without it
+  };
+  upstream: UpstreamConfig;
+  providerTesting: ProviderTestingConfig;
+  upload: {
+    fieldName: string; // Multipart field holding the audio
+    maxMb: number;
+    maxAudioDurationSeconds: number; // 0 for no limit
+  };
+  remoteAudio: {
+    maxMb: number;
+    timeoutMs: number; // For the whole download, redirects included
+    maxRedirects: number;
+    blockPrivateAddresses: boolean;
+    allowedHosts: string[]; // Reachable even when they resolve to private addresses
+  };
+  resultCache: {
+    path: string;
+    ttlHours: number; // 0 disables the cache
+    maxMb: number;
+  };
+  health: {
+    minFreeTempMb: number; // Not ready with less free space in the temp dir
+    providerCheckTtlSeconds: number; // How long a provider probe result is reused
+  };
+  webhooks: {
+    secret?: string; // Signing secret; webhooks are disabled without it
+    logPath: string;
+    logRetentionHours: number; // Older delivery attempts are trimmed; 0 keeps them
+    maxAttempts: number;
+    blockPrivateAddresses: boolean;
+    allowedHosts: string[]; // Reachable even when they resolve to private addresses
+  };
+  subtitles: SubtitleRules;
+  jobs: {
+    maxConcurrent: number; // Jobs processed at once; 0 for no limit
+    retentionHours: number; // Finished jobs are purged after this; 0 keeps them
+  };
+  storage: {
+    jobsPath: string;
+    apiKeysPath: string;
+    speakersPath: string;
+    usageLogPath: string;
+  };
+  priceTablePath?: string; // JSON file overriding the default prices
+}
+
+export const DEFAULT_OPENAI_MODELS: OpenAIModels = {
+  default: "gpt-4o-mini-transcribe",
+  accurate: "gpt-4o-transcribe",
+  timestamps: "whisper-1",
+  diarize: "gpt-4o-transcribe-diarize",
+};
+
+/**
+ * Read the configuration: defaults, overridden by the JSON file at
+ * CONFIG_PATH (same shape as AppConfig, every setting optional), overridden
+ * by environment variables:
+ * - PORT, HOST, SHUTDOWN_TIMEOUT_SECONDS
+ * - TRANSCRIPTION_PROVIDER
+ * - OPENAI_API_KEY, OPENAI_BASE_URL, LOCAL_WHISPER_URL, LOCAL_WHISPER_API,
+ *   LOCAL_CHAT_URL, LOCAL_CHAT_MODEL
+ * - OPENAI_MODEL, OPENAI_ACCURATE_MODEL, OPENAI_TIMESTAMPS_MODEL,
+ *   OPENAI_DIARIZE_MODEL, LOCAL_WHISPER_MODEL
+ * - OPENAI_TEXT_GENERATION_MODEL
+ * - TEMP_DIR, TEMP_FILE_MAX_AGE_MINUTES, TEMP_SWEEP_INTERVAL_MINUTES
+ * - PROVIDER_MAX_FILE_MB, WAV_SAMPLE_RATE, WAV_OPTIMIZED_SAMPLE_RATE,
+ *   CHUNK_MIN_SECONDS, CHUNK_MAX_SECONDS, CHUNK_CONCURRENCY,
+ *   FFMPEG_TIMEOUT_SECONDS, FFPROBE_TIMEOUT_SECONDS
+ * - REQUIRE_API_KEY, ADMIN_API_KEY
+ * - UPSTREAM_MAX_CONCURRENT, UPSTREAM_REQUESTS_PER_MINUTE,
+ *   UPSTREAM_MAX_RETRIES, UPSTREAM_RETRY_BASE_MS, UPSTREAM_RETRY_MAX_MS
+ * - PROVIDER_MODE, PROVIDER_FIXTURES_DIR, PROVIDER_FAULT,
+ *   PROVIDER_FAULT_RATE, PROVIDER_FAULT_DELAY_MS
+ * - UPLOAD_FIELD_NAME, MAX_UPLOAD_MB, MAX_AUDIO_DURATION_SECONDS
+ * - REMOTE_AUDIO_MAX_MB, REMOTE_AUDIO_TIMEOUT_MS, REMOTE_AUDIO_MAX_REDIRECTS,
+ *   REMOTE_AUDIO_BLOCK_PRIVATE, REMOTE_AUDIO_ALLOWED_HOSTS
+ * - RESULT_CACHE_PATH, RESULT_CACHE_TTL_HOURS, RESULT_CACHE_MAX_MB
+ * - READY_MIN_FREE_TEMP_MB, READY_PROVIDER_CHECK_TTL_SECONDS
+ * - WEBHOOK_SECRET, WEBHOOK_LOG_PATH, WEBHOOK_LOG_RETENTION_HOURS,
+ *   WEBHOOK_MAX_ATTEMPTS, WEBHOOK_BLOCK_PRIVATE, WEBHOOK_ALLOWED_HOSTS
+ * - SUBTITLE_MAX_CHARS_PER_LINE, SUBTITLE_MAX_LINES, SUBTITLE_MAX_CPS,
+ *   SUBTITLE_MIN_DURATION, SUBTITLE_MAX_DURATION
+ * - JOBS_MAX_CONCURRENT, JOB_RETENTION_HOURS
+ * - JOB_STORE_PATH, API_KEY_STORE_PATH, SPEAKER_STORE_PATH, USAGE_LOG_PATH
+ * - PRICE_TABLE_PATH
+ * @throws If the file can't be read, or any setting is invalid; the message
+ * lists every problem found
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const reader = new SettingsReader(env, env.CONFIG_PATH);
+
+  const config: AppConfig = {
+    server: {
+      port: reader.integer("server.port", "PORT", 3001, 1, 65535),
+      host: reader.string("server.host", "HOST", "0.0.0.0"),
+      shutdownTimeoutSeconds: reader.integer(
+        "server.shutdownTimeoutSeconds",
+        "SHUTDOWN_TIMEOUT_SECONDS",
+        25,
+        0
+      ),
+    },
+    defaultProvider: reader.string(
+      "defaultProvider",
+      "TRANSCRIPTION_PROVIDER",
+      "openai"
+    ),
+    providers: {
+      openai: {
+        apiKey: reader.optionalString(
+          "providers.openai.apiKey",
+          "OPENAI_API_KEY"
+        ),
+        baseUrl: reader.url(
+          "providers.openai.baseUrl",
+          "OPENAI_BASE_URL",
+          "https://api.openai.com/v1"
+        ),
+      },
+      local: {
+        url: reader.optionalUrl("providers.local.url", "LOCAL_WHISPER_URL"),
+        api: reader.choice(
+          "providers.local.api",
+          "LOCAL_WHISPER_API",
+          "openai",
+          ["openai", "whisper.cpp"]
+        ),
+        chatUrl: reader.optionalUrl(
+          "providers.local.chatUrl",
+          "LOCAL_CHAT_URL"
+        ),
+        chatModel: reader.optionalString(
+          "providers.local.chatModel",
+          "LOCAL_CHAT_MODEL"
+        ),
+      },
+    },
+    models: {
+      openai: {
+        default: reader.string(
+          "models.openai.default",
+          "OPENAI_MODEL",
+          DEFAULT_OPENAI_MODELS.default
+        ),
+        accurate: reader.string(
+          "models.openai.accurate",
+          "OPENAI_ACCURATE_MODEL",
+          DEFAULT_OPENAI_MODELS.accurate
+        ),
+        timestamps: reader.string(
+          "models.openai.timestamps",
+          "OPENAI_TIMESTAMPS_MODEL",
+          DEFAULT_OPENAI_MODELS.timestamps
+        ),
+        diarize: reader.string(
+          "models.openai.diarize",
+          "OPENAI_DIARIZE_MODEL",
+          DEFAULT_OPENAI_MODELS.diarize
+        ),
+      },
+      local: reader.string("models.local", "LOCAL_WHISPER_MODEL", "whisper-1"),
+    },
+    textGenerationModel: reader.string(
+      "textGenerationModel",
+      "OPENAI_TEXT_GENERATION_MODEL",
+      "gpt-4o-mini"
+    ),
+    tempDir: reader.string("tempDir", "TEMP_DIR", tmpdir()),
+    tempFiles: {
+      maxAgeMinutes: reader.integer(
+        "tempFiles.maxAgeMinutes",
+        "TEMP_FILE_MAX_AGE_MINUTES",
+        360,
+        1
+      ),
+      sweepIntervalMinutes: reader.integer(
+        "tempFiles.sweepIntervalMinutes",
+        "TEMP_SWEEP_INTERVAL_MINUTES",
+        15,
+        1
+      ),
+    },
+    transcription: {
+      maxFileSizeMb: reader.number(
+        "transcription.maxFileSizeMb",
+        "PROVIDER_MAX_FILE_MB",
+        25
+      ),
+      sampleRate: reader.integer(
+        "transcription.sampleRate",
+        "WAV_SAMPLE_RATE",
+        16000,
+        8000,
+        48000
+      ),
+      optimizedSampleRate: reader.integer(
+        "transcription.optimizedSampleRate",
+        "WAV_OPTIMIZED_SAMPLE_RATE",
+        8000,
+        8000,
+        48000
+      ),
+      minChunkSeconds: reader.integer(
+        "transcription.minChunkSeconds",
+        "CHUNK_MIN_SECONDS",
+        60,
+        10
+      ),
+      maxChunkSeconds: reader.integer(
+        "transcription.maxChunkSeconds",
+        "CHUNK_MAX_SECONDS",
+        300,
+        10
+      ),
+      maxConcurrentChunks: reader.integer(
+        "transcription.maxConcurrentChunks",
+        "CHUNK_CONCURRENCY",
+        2,
+        1
+      ),
+      ffmpegTimeoutSeconds: reader.integer(
+        "transcription.ffmpegTimeoutSeconds",
+        "FFMPEG_TIMEOUT_SECONDS",
+        900,
+        1
+      ),
+      ffprobeTimeoutSeconds: reader.integer(
+        "transcription.ffprobeTimeoutSeconds",
+        "FFPROBE_TIMEOUT_SECONDS",
+        30,
+        1
+      ),
+    },
+    auth: {
+      requireApiKey: reader.boolean(
+        "auth.requireApiKey",
+        "REQUIRE_API_KEY",
+        true
+      ),
+      adminApiKey: reader.optionalString("auth.adminApiKey", "ADMIN_API_KEY"),
+    },
+    upstream: {
+      maxConcurrent: reader.integer(
+        "upstream.maxConcurrent",
+        "UPSTREAM_MAX_CONCURRENT",
+        4,
+        1
+      ),
+      requestsPerMinute: reader.integer(
+        "upstream.requestsPerMinute",
+        "UPSTREAM_REQUESTS_PER_MINUTE",
+        0,
+        0
+      ),
+      maxRetries: reader.integer(
+        "upstream.maxRetries",
+        "UPSTREAM_MAX_RETRIES",
+        3,
+        0
+      ),
+      retryBaseMs: reader.integer(
+        "upstream.retryBaseMs",
+        "UPSTREAM_RETRY_BASE_MS",
+        1000,
+        0
+      ),
+      retryMaxMs: reader.integer(
+        "upstream.retryMaxMs",
+        "UPSTREAM_RETRY_MAX_MS",
+        30000,
+        0
+      ),
+    },
+    providerTesting: {
+      mode: reader.choice("providerTesting.mode", "PROVIDER_MODE", "live", [
+        "live",
+        "record",
+        "replay",
+      ]),
+      fixturesDir: reader.string(
+        "providerTesting.fixturesDir",
+        "PROVIDER_FIXTURES_DIR",
+        join(process.cwd(), "fixtures")
+      ),
+      fault: reader.choice<FaultType, undefined>(
+        "providerTesting.fault",
+        "PROVIDER_FAULT",
+        undefined,
+        ["rate_limit", "corrupted_file", "timeout", "auth"]
+      ),
+      faultRate: reader.number(
+        "providerTesting.faultRate",
+        "PROVIDER_FAULT_RATE",
+        1,
+        0,
+        1
+      ),
+      faultDelayMs: reader.integer(
+        "providerTesting.faultDelayMs",
+        "PROVIDER_FAULT_DELAY_MS",
+        0,
+        0
+      ),
+    },
+    upload: {
+      fieldName: reader.string(
+        "upload.fieldName",
+        "UPLOAD_FIELD_NAME",
+        "audio"
+      ),
+      maxMb: reader.number("upload.maxMb", "MAX_UPLOAD_MB", 500),
+      maxAudioDurationSeconds: reader.number(
+        "upload.maxAudioDurationSeconds",
+        "MAX_AUDIO_DURATION_SECONDS",
+        14400,
+        0
+      ),
+    },
+    remoteAudio: {
+      maxMb: reader.number("remoteAudio.maxMb", "REMOTE_AUDIO_MAX_MB", 200),
+      timeoutMs: reader.integer(
+        "remoteAudio.timeoutMs",
+        "REMOTE_AUDIO_TIMEOUT_MS",
+        300000,
+        1
+      ),
+      maxRedirects: reader.integer(
+        "remoteAudio.maxRedirects",
+        "REMOTE_AUDIO_MAX_REDIRECTS",
+        3,
+        0,
+        20
+      ),
+      blockPrivateAddresses: reader.boolean(
+        "remoteAudio.blockPrivateAddresses",
+        "REMOTE_AUDIO_BLOCK_PRIVATE",
+        true
+      ),
+      allowedHosts: reader
+        .list("remoteAudio.allowedHosts", "REMOTE_AUDIO_ALLOWED_HOSTS")
+        .map((host) => host.toLowerCase()),
+    },
+    resultCache: {
+      path: reader.string(
+        "resultCache.path",
+        "RESULT_CACHE_PATH",
+        join(process.cwd(), "data", "result-cache.json")
+      ),
+      ttlHours: reader.number(
+        "resultCache.ttlHours",
+        "RESULT_CACHE_TTL_HOURS",
+        24,
+        0
+      ),
+      maxMb: reader.number("resultCache.maxMb", "RESULT_CACHE_MAX_MB", 50),
+    },
+    health: {
+      minFreeTempMb: reader.number(
+        "health.minFreeTempMb",
+        "READY_MIN_FREE_TEMP_MB",
+        1024,
+        0
+      ),
+      providerCheckTtlSeconds: reader.number(
+        "health.providerCheckTtlSeconds",
+        "READY_PROVIDER_CHECK_TTL_SECONDS",
+        30,
+        0
+      ),
+    },
+    webhooks: {
+      secret: reader.optionalString("webhooks.secret", "WEBHOOK_SECRET"),
+      logPath: reader.string(
+        "webhooks.logPath",
+        "WEBHOOK_LOG_PATH",
+        join(process.cwd(), "data", "webhook-deliveries.jsonl")
+      ),
+      logRetentionHours: reader.number(
+        "webhooks.logRetentionHours",
+        "WEBHOOK_LOG_RETENTION_HOURS",
+        168,
+        0
+      ),
+      maxAttempts: reader.integer(
+        "webhooks.maxAttempts",
+        "WEBHOOK_MAX_ATTEMPTS",
+        5,
+        1,
+        20
+      ),
+      blockPrivateAddresses: reader.boolean(
+        "webhooks.blockPrivateAddresses",
+        "WEBHOOK_BLOCK_PRIVATE",
+        true
+      ),
+      allowedHosts: reader
+        .list("webhooks.allowedHosts", "WEBHOOK_ALLOWED_HOSTS")
+        .map((host) => host.toLowerCase()),
+    },
+    subtitles: {
+      maxCharsPerLine: reader.integer(
+        "subtitles.maxCharsPerLine",
+        "SUBTITLE_MAX_CHARS_PER_LINE",
+        DEFAULT_SUBTITLE_RULES.maxCharsPerLine,
+        10
+      ),
+      maxLinesPerCue: reader.integer(
+        "subtitles.maxLinesPerCue",
+        "SUBTITLE_MAX_LINES",
+        DEFAULT_SUBTITLE_RULES.maxLinesPerCue,
+        1
+      ),
+      maxCharsPerSecond: reader.number(
+        "subtitles.maxCharsPerSecond",
+        "SUBTITLE_MAX_CPS",
+        DEFAULT_SUBTITLE_RULES.maxCharsPerSecond
+      ),
+      minCueDurationSec: reader.number(
+        "subtitles.minCueDurationSec",
+        "SUBTITLE_MIN_DURATION",
+        DEFAULT_SUBTITLE_RULES.minCueDurationSec
+      ),
+      maxCueDurationSec: reader.number(
+        "subtitles.maxCueDurationSec",
+        "SUBTITLE_MAX_DURATION",
+        DEFAULT_SUBTITLE_RULES.maxCueDurationSec
+      ),
+    },
+    jobs: {
+      maxConcurrent: reader.integer(
+        "jobs.maxConcurrent",
+        "JOBS_MAX_CONCURRENT",
+        2,
+        0
+      ),
+      retentionHours: reader.number(
+        "jobs.retentionHours",
+        "JOB_RETENTION_HOURS",
+        168,
+        0
+      ),
+    },
+    storage: {
+      jobsPath: reader.string(
+        "storage.jobsPath",
+        "JOB_STORE_PATH",
+        join(process.cwd(), "data", "jobs.json")
+      ),
+      apiKeysPath: reader.string(
+        "storage.apiKeysPath",
+        "API_KEY_STORE_PATH",
+        join(process.cwd(), "data", "api-keys.json")
+      ),
+      speakersPath: reader.string(
+        "storage.speakersPath",
+        "SPEAKER_STORE_PATH",
+        join(process.cwd(), "data", "speakers.json")
+      ),
+      usageLogPath: reader.string(
+        "storage.usageLogPath",
+        "USAGE_LOG_PATH",
+        join(process.cwd(), "data", "usage.jsonl")
+      ),
+    },
+    priceTablePath: reader.optionalString("priceTablePath", "PRICE_TABLE_PATH"),
+  };
+
+  const { transcription, upstream, subtitles } = config;
+  if (transcription.minChunkSeconds > transcription.maxChunkSeconds) {
+    reader.errors.push(
+      `transcription.minChunkSeconds (${transcription.minChunkSeconds}) must not exceed transcription.maxChunkSeconds (${transcription.maxChunkSeconds})`
+    );
+  }
+  if (upstream.retryBaseMs > upstream.retryMaxMs) {
+    reader.errors.push(
+      `upstream.retryBaseMs (${upstream.retryBaseMs}) must not exceed upstream.retryMaxMs (${upstream.retryMaxMs})`
+    );
+  }
+  if (subtitles.minCueDurationSec > subtitles.maxCueDurationSec) {
+    reader.errors.push(
+      `subtitles.minCueDurationSec (${subtitles.minCueDurationSec}) must not exceed subtitles.maxCueDurationSec (${subtitles.maxCueDurationSec})`
+    );
+  }
+  if (
+    config.priceTablePath &&
+    !statSync(config.priceTablePath, { throwIfNoEntry: false })?.isFile()
+  ) {
+    reader.errors.push(`priceTablePath ${config.priceTablePath} is not a file`);
+  }
+  try {
+    if (!statSync(config.tempDir).isDirectory()) {
+      reader.errors.push(`tempDir ${config.tempDir} is not a directory`);
+    }
+  } catch {
+    reader.errors.push(`tempDir ${config.tempDir} does not exist`);
+  }
+
+  reader.checkUnknownSettings();
+  if (reader.errors.length > 0) {
+    throw new Error(
+      `Invalid configuration:\n${reader.errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+  }
+  return config;
+}
+
+/**
+ * Looks settings up in the environment, then the config file, and collects
+ * every problem instead of stopping at the first
+ */
+class SettingsReader {
+  readonly errors: string[] = [];
+  private file: Record<string, unknown> = {};
+  private knownPaths = new Set<string>();
+
+  constructor(private env: NodeJS.ProcessEnv, private filePath?: string) {
+    if (!filePath) {
+      return;
+    }
+    try {
+      const parsed = JSON.parse(readFileSync(filePath, "utf-8"));
+      if (isObject(parsed)) {
+        this.file = parsed;
+      } else {
+        this.errors.push(`Config file ${filePath} must contain a JSON object`);
+      }
+    } catch (error) {
+      this.errors.push(
+        `Failed to read config file ${filePath}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  string(path: string, envName: string, defaultValue: string): string {
+    const setting = this.lookup(path, envName);
+    if (!setting) {
+      return defaultValue;
+    }
+    if (typeof setting.value !== "string" || !setting.value.trim()) {
+      this.errors.push(`${setting.source} must be a non-empty string`);
+      return defaultValue;
+    }
+    return setting.value.trim();
+  }
+
+  /**
+   * Like string(), but unset by default
+   */
+  optionalString(path: string, envName: string): string | undefined {
+    return this.lookup(path, envName)
+      ? this.string(path, envName, "")
+      : undefined;
+  }
+
+  /**
+   * An absolute http or https URL
+   */
+  url(path: string, envName: string, defaultValue: string): string {
+    const value = this.string(path, envName, defaultValue);
+    if (value === defaultValue) {
+      return value;
+    }
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(value).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== "http:" && protocol !== "https:") {
+      this.errors.push(
+        `${
+          this.lookup(path, envName)?.source
+        } must be an http or https URL, got ${JSON.stringify(value)}`
+      );
+      return defaultValue;
+    }
+    return value;
+  }
+
+  /**
+   * Like url(), but unset by default
+   */
+  optionalUrl(path: string, envName: string): string | undefined {
+    return this.lookup(path, envName) ? this.url(path, envName, "") : undefined;
+  }
+
+  /**
+   * One of a fixed set of strings
+   */
+  choice<T extends string, D extends T | undefined>(
+    path: string,
+    envName: string,
+    defaultValue: D,
+    choices: readonly T[]
+  ): T | D {
+    const setting = this.lookup(path, envName);
+    if (!setting) {
+      return defaultValue;
+    }
+    if (!choices.includes(setting.value as T)) {
+      this.errors.push(
+        `${setting.source} must be one of ${choices.join(
+          ", "
+        )}, got ${JSON.stringify(setting.value)}`
+      );
+      return defaultValue;
+    }
+    return setting.value as T;
+  }
+
+  /**
+   * true or false; environment variables are the strings "true" and "false"
+   */
+  boolean(path: string, envName: string, defaultValue: boolean): boolean {
+    const setting = this.lookup(path, envName);
+    if (!setting) {
+      return defaultValue;
+    }
+    if (setting.value === true || setting.value === "true") {
+      return true;
+    }
+    if (setting.value === false || setting.value === "false") {
+      return false;
+    }
+    this.errors.push(
+      `${setting.source} must be true or false, got ${JSON.stringify(
+        setting.value
+      )}`
+    );
+    return defaultValue;
+  }
+
+  /**
+   * A list of strings: an array in the config file, comma-separated in the
+   * environment. Empty entries are dropped.
+   */
+  list(path: string, envName: string): string[] {
+    const setting = this.lookup(path, envName);
+    if (!setting) {
+      return [];
+    }
+    const items =
+      typeof setting.value === "string"
+        ? setting.value.split(",")
+        : setting.value;
+    if (
+      !Array.isArray(items) ||
+      !items.every((item) => typeof item === "string")
+    ) {
+      this.errors.push(
+        `${setting.source} must be a list of strings, got ${JSON.stringify(
+          setting.value
+        )}`
+      );
+      return [];
+    }
+    return items.map((item: string) => item.trim()).filter(Boolean);
+  }
+
+  /**
+   * A number greater than 0, or from min to max inclusive when min is given
+   */
+  number(
+    path: string,
+    envName: string,
+    defaultValue: number,
+    min?: number,
+    max?: number
+  ): number {
+    const value = this.numeric(path, envName);
+    if (value === undefined) {
+      return defaultValue;
+    }
+    const inRange =
+      min === undefined
+        ? value.value > 0
+        : value.value >= min && (max === undefined || value.value <= max);
+    if (!Number.isFinite(value.value) || !inRange) {
+      const range =
+        min === undefined
+          ? "greater than 0"
+          : max === undefined
+          ? `of at least ${min}`
+          : `from ${min} to ${max}`;
+      this.errors.push(
+        `${value.source} must be a number ${range}, got ${value.raw}`
+      );
+      return defaultValue;
+    }
+    return value.value;
+  }
+
+  /**
+   * A whole number from min to max, inclusive
+   */
+  integer(
+    path: string,
+    envName: string,
+    defaultValue: number,
+    min: number,
+    max?: number
+  ): number {
+    const value = this.numeric(path, envName);
+    if (value === undefined) {
+      return defaultValue;
+    }
+    if (
+      !Number.isInteger(value.value) ||
+      value.value < min ||
+      (max !== undefined && value.value > max)
+    ) {
+      const range =
+        max === undefined ? `of at least ${min}` : `from ${min} to ${max}`;
+      this.errors.push(
+        `${value.source} must be an integer ${range}, got ${value.raw}`
+      );
+      return defaultValue;
+    }
+    return value.value;
+  }
+
+  /**
+   * Report settings in the config file that nothing reads, which are
+   * usually typos
+   */
+  checkUnknownSettings(): void {
+    const visit = (value: Record<string, unknown>, prefix: string) => {
+      for (const [key, child] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (this.knownPaths.has(path)) {
+          continue;
+        }
+        const isSection = [...this.knownPaths].some((known) =>
+          known.startsWith(`${path}.`)
+        );
+        if (isSection && isObject(child)) {
+          visit(child, path);
+        } else if (isSection) {
+          this.errors.push(`${path} in ${this.filePath} must be an object`);
+        } else {
+          this.errors.push(`Unknown setting ${path} in ${this.filePath}`);
+        }
+      }
+    };
+    visit(this.file, "");
+  }
+
+  /**
+   * A setting as a number (NaN if it isn't one), with its raw value for
+   * errors. Environment variables are strings, so numeric strings count.
+   */
+  private numeric(
+    path: string,
+    envName: string
+  ): { value: number; raw: string; source: string } | undefined {
+    const setting = this.lookup(path, envName);
+    if (!setting) {
+      return undefined;
+    }
+    const value =
+      typeof setting.value === "number"
+        ? setting.value
+        : typeof setting.value === "string" && setting.value.trim()
+        ? Number(setting.value)
+        : NaN;
+    return {
+      value,
+      raw: JSON.stringify(setting.value),
+      source: setting.source,
+    };
+  }
+
+  /**
+   * The environment variable if set, else the config file value at a
+   * dotted path, with a description of where it came from for errors
+   */
+  private lookup(
+    path: string,
+    envName: string
+  ): { value: unknown; source: string } | undefined {
+    this.knownPaths.add(path);
+
+    const envValue = this.env[envName];
+    if (envValue !== undefined && envValue !== "") {
+      return { value: envValue, source: envName };
+    }
+
+    let value: unknown = this.file;
+    for (const key of path.split(".")) {
+      value = isObject(value) ? value[key] : undefined;
+    }
+    return value === undefined
+      ? undefined
+      : { value, source: `${path} in ${this.filePath}` };
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,203 @@
+import type { TranscriptSegment } from "../services/transcription-service.js";
+
+/**
+ * One speaker turn: consecutive segments by the same speaker
+ */
+export interface Utterance {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Talk-time statistics for one speaker
+ */
+export interface SpeakerStats {
+  speaker: string;
+  talkTimeSeconds: number;
+  talkTimePercent: number; // Share of total talk time, not of recording length
+  utteranceCount: number;
+  wordCount: number;
+  firstSpokeAt: number;
+}
+
+/**
+ * Merge consecutive segments from the same speaker into utterances.
+ * Segments without a speaker label are attributed to "unknown".
+ */
+export function buildUtterances(segments: TranscriptSegment[]): Utterance[] {
+  const utterances: Utterance[] = [];
+
+  for (const segment of segments) {
+    if (!segment.text) continue;
+
+    const speaker = segment.speaker || "unknown";
+    const last = utterances[utterances.length - 1];
+    if (last && last.speaker === speaker) {
+      last.end = Math.max(last.end, segment.end);
+      last.text = `${last.text} ${segment.text}`;
+    } else {
+      utterances.push({
+        speaker,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+      });
+    }
+  }
+
+  return utterances;
+}
+
+/**
+ * Speaker labels in order of first appearance
+ */
+export function listSpeakers(utterances: Utterance[]): string[] {
+  return [...new Set(utterances.map((u) => u.speaker))];
+}
+
+/**
+ * Per-speaker talk time, turn count and word count, in order of first
+ * appearance
+ */
+export function computeSpeakerStats(utterances: Utterance[]): SpeakerStats[] {
+  const stats = new Map<string, SpeakerStats>();
+
+  for (const utterance of utterances) {
+    let entry = stats.get(utterance.speaker);
+    if (!entry) {
+      entry = {
+        speaker: utterance.speaker,
+        talkTimeSeconds: 0,
+        talkTimePercent: 0,
+        utteranceCount: 0,
+        wordCount: 0,
+        firstSpokeAt: utterance.start,
+      };
+      stats.set(utterance.speaker, entry);
+    }
+    entry.talkTimeSeconds += Math.max(0, utterance.end - utterance.start);
+    entry.utteranceCount++;
+    entry.wordCount += utterance.text.split(/\s+/).filter(Boolean).length;
+  }
+
+  const totalTalkTime = [...stats.values()].reduce(
+    (sum, entry) => sum + entry.talkTimeSeconds,
+    0
+  );
+
+  return [...stats.values()].map((entry) => ({
+    ...entry,
+    talkTimeSeconds: Math.round(entry.talkTimeSeconds * 100) / 100,
+    talkTimePercent:
+      totalTalkTime > 0
+        ? Math.round((entry.talkTimeSeconds / totalTalkTime) * 1000) / 10
+        : 0,
+  }));
+}
+
+/**
+ * How a chunk's speaker labels map onto the labels already used for the
+ * recording, given what is known from earlier chunks
+ */
+export interface ChunkSpeakerContext {
+  referenceLabels: Record<string, string>; // Reference-clip name -> label
+  previousSegments: TranscriptSegment[]; // Earlier chunks, absolute times
+  overlap: { start: number; end: number } | null; // Audio shared with the previous chunk
+  usedLabels: string[]; // Labels already assigned in the recording
+}
+
+// Seconds of shared speech needed before two labels are taken to be one speaker
+const MIN_OVERLAP_MATCH_SEC = 0.5;
+
+/**
+ * Map the speaker labels of one chunk onto the recording's labels, so one
+ * person keeps one label across independently diarized chunks:
+ * 1. labels the model returned for a reference clip map to that speaker
+ * 2. labels speaking in the audio shared with the previous chunk take the
+ *    label of whoever the previous chunk heard at the same time
+ * 3. anything else is a new speaker and gets the next free label
+ *
+ * @param segments - The chunk's segments, shifted to absolute times
+ * @returns Chunk label -> recording label
+ */
+export function matchChunkSpeakers(
+  segments: TranscriptSegment[],
+  context: ChunkSpeakerContext
+): Record<string, string> {
+  const labels = [
+    ...new Set(segments.map((segment) => segment.speaker || "unknown")),
+  ];
+  const mapping: Record<string, string> = {};
+  const taken = new Set<string>();
+
+  for (const label of labels) {
+    const known = context.referenceLabels[label];
+    if (known && !taken.has(known)) {
+      mapping[label] = known;
+      taken.add(known);
+    }
+  }
+
+  if (context.overlap) {
+    const { start, end } = context.overlap;
+    const votes: Array<{ label: string; target: string; seconds: number }> = [];
+
+    for (const segment of segments) {
+      const label = segment.speaker || "unknown";
+      if (mapping[label]) continue;
+
+      for (const previous of context.previousSegments) {
+        if (!previous.speaker) continue;
+        const shared =
+          Math.min(segment.end, previous.end, end) -
+          Math.max(segment.start, previous.start, start);
+        if (shared <= 0) continue;
+
+        const vote = votes.find(
+          (v) => v.label === label && v.target === previous.speaker
+        );
+        if (vote) {
+          vote.seconds += shared;
+        } else {
+          votes.push({ label, target: previous.speaker, seconds: shared });
+        }
+      }
+    }
+
+    // Strongest matches first, each label and target used once
+    votes.sort((a, b) => b.seconds - a.seconds);
+    for (const vote of votes) {
+      if (vote.seconds < MIN_OVERLAP_MATCH_SEC) break;
+      if (mapping[vote.label] || taken.has(vote.target)) continue;
+      mapping[vote.label] = vote.target;
+      taken.add(vote.target);
+    }
+  }
+
+  const used = new Set([...context.usedLabels, ...taken]);
+  for (const label of labels) {
+    if (mapping[label]) continue;
+    const next = nextSpeakerLabel(used);
+    mapping[label] = next;
+    used.add(next);
+  }
+
+  return mapping;
+}
+
+/**
+ * First unused label in the sequence A, B, ..., Z, AA, AB, ...
+ */
+function nextSpeakerLabel(used: Set<string>): string {
+  for (let n = 0; ; n++) {
+    let label = "";
+    for (let i = n; i >= 0; i = Math.floor(i / 26) - 1) {
+      label = String.fromCharCode(65 + (i % 26)) + label;
+    }
+    if (!used.has(label)) {
+      return label;
+    }
+  }
+}
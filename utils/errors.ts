@@ -0,0 +1,172 @@
+/**
+ * Machine-readable codes returned in the `code` field of error responses.
+ * Clients can rely on these; messages may change.
+ */
+export type ErrorCode =
+  | "validation_error"
+  | "unauthorized"
+  | "forbidden"
+  | "client_rate_limited"
+  | "quota_exceeded"
+  | "unsupported_media"
+  | "payload_too_large"
+  | "conversion_failed"
+  | "invalid_audio_url"
+  | "download_failed"
+  | "download_timeout"
+  | "upstream_rate_limited"
+  | "upstream_auth_failed"
+  | "upstream_timeout"
+  | "upstream_error"
+  | "shutting_down"
+  | "internal_error";
+
+/**
+ * An error with the HTTP status and code to report to clients. Anything
+ * else that reaches a route is reported as a 500 internal_error.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ErrorCode,
+    readonly retryAfterSeconds?: number // Sent as the Retry-After header
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * The request is malformed or its options are invalid
+ */
+export class ValidationError extends ApiError {
+  constructor(message: string) {
+    super(message, 400, "validation_error");
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * No valid API key was sent
+ */
+export class AuthenticationError extends ApiError {
+  constructor(message: string) {
+    super(message, 401, "unauthorized");
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * The API key is valid but may not use this route
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(message, 403, "forbidden");
+    this.name = "ForbiddenError";
+  }
+}
+
+/**
+ * The client sent more requests than its API key allows
+ */
+export class ClientRateLimitError extends ApiError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 429, "client_rate_limited", retryAfterSeconds);
+    this.name = "ClientRateLimitError";
+  }
+}
+
+/**
+ * The client has used up its monthly audio allowance
+ */
+export class QuotaExceededError extends ApiError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 429, "quota_exceeded", retryAfterSeconds);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * The file isn't audio, or the provider can't read it
+ */
+export class UnsupportedMediaError extends ApiError {
+  constructor(message: string) {
+    super(message, 415, "unsupported_media");
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+/**
+ * The upload is too large or the recording too long
+ */
+export class PayloadTooLargeError extends ApiError {
+  constructor(message: string) {
+    super(message, 413, "payload_too_large");
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+/**
+ * ffmpeg could not convert or cut the audio
+ */
+export class ConversionError extends ApiError {
+  constructor(message: string) {
+    super(message, 415, "conversion_failed");
+    this.name = "ConversionError";
+  }
+}
+
+/**
+ * The transcription provider is rate limiting us
+ */
+export class UpstreamRateLimitError extends ApiError {
+  constructor(message: string, retryAfterSeconds?: number) {
+    super(message, 429, "upstream_rate_limited", retryAfterSeconds);
+    this.name = "UpstreamRateLimitError";
+  }
+}
+
+/**
+ * The provider rejected our credentials. Reported as a 502, since the
+ * client's request is fine and the server is misconfigured.
+ */
+export class UpstreamAuthError extends ApiError {
+  constructor(message: string) {
+    super(message, 502, "upstream_auth_failed");
+    this.name = "UpstreamAuthError";
+  }
+}
+
+/**
+ * The provider did not answer in time
+ */
+export class UpstreamTimeoutError extends ApiError {
+  constructor(message: string) {
+    super(message, 504, "upstream_timeout");
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * The provider failed or could not be reached
+ */
+export class UpstreamError extends ApiError {
+  constructor(
+    message: string,
+    readonly upstreamStatus?: number // Absent when the provider wasn't reached
+  ) {
+    super(message, 502, "upstream_error");
+    this.name = "UpstreamError";
+  }
+}
+
+/**
+ * The server is shutting down and accepts no new work
+ */
+export class ShuttingDownError extends ApiError {
+  constructor(message: string = "Server is shutting down, retry shortly") {
+    super(message, 503, "shutting_down", 5);
+    this.name = "ShuttingDownError";
+  }
+}
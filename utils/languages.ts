@@ -0,0 +1,147 @@
+/**
+ * ISO-639-1 codes of the languages Whisper transcribes, with the lowercase
+ * English names verbose_json responses use for detected languages
+ */
+export const SUPPORTED_LANGUAGES: Record<string, string> = {
+  af: "afrikaans",
+  am: "amharic",
+  ar: "arabic",
+  as: "assamese",
+  az: "azerbaijani",
+  ba: "bashkir",
+  be: "belarusian",
+  bg: "bulgarian",
+  bn: "bengali",
+  bo: "tibetan",
+  br: "breton",
+  bs: "bosnian",
+  ca: "catalan",
+  cs: "czech",
+  cy: "welsh",
+  da: "danish",
+  de: "german",
+  el: "greek",
+  en: "english",
+  es: "spanish",
+  et: "estonian",
+  eu: "basque",
+  fa: "persian",
+  fi: "finnish",
+  fo: "faroese",
+  fr: "french",
+  gl: "galician",
+  gu: "gujarati",
+  ha: "hausa",
+  he: "hebrew",
+  hi: "hindi",
+  hr: "croatian",
+  ht: "haitian creole",
+  hu: "hungarian",
+  hy: "armenian",
+  id: "indonesian",
+  is: "icelandic",
+  it: "italian",
+  ja: "japanese",
+  jv: "javanese",
+  ka: "georgian",
+  kk: "kazakh",
+  km: "khmer",
+  kn: "kannada",
+  ko: "korean",
+  la: "latin",
+  lb: "luxembourgish",
+  ln: "lingala",
+  lo: "lao",
+  lt: "lithuanian",
+  lv: "latvian",
+  mg: "malagasy",
+  mi: "maori",
+  mk: "macedonian",
+  ml: "malayalam",
+  mn: "mongolian",
+  mr: "marathi",
+  ms: "malay",
+  mt: "maltese",
+  my: "myanmar",
+  ne: "nepali",
+  nl: "dutch",
+  nn: "nynorsk",
+  no: "norwegian",
+  oc: "occitan",
+  pa: "punjabi",
+  pl: "polish",
+  ps: "pashto",
+  pt: "portuguese",
+  ro: "romanian",
+  ru: "russian",
+  sa: "sanskrit",
+  sd: "sindhi",
+  si: "sinhala",
+  sk: "slovak",
+  sl: "slovenian",
+  sn: "shona",
+  so: "somali",
+  sq: "albanian",
+  sr: "serbian",
+  su: "sundanese",
+  sv: "swedish",
+  sw: "swahili",
+  ta: "tamil",
+  te: "telugu",
+  tg: "tajik",
+  th: "thai",
+  tk: "turkmen",
+  tl: "tagalog",
+  tr: "turkish",
+  tt: "tatar",
+  uk: "ukrainian",
+  ur: "urdu",
+  uz: "uzbek",
+  vi: "vietnamese",
+  yi: "yiddish",
+  yo: "yoruba",
+  zh: "chinese",
+};
+
+// Other names Whisper servers report for the same languages
+const LANGUAGE_ALIASES: Record<string, string> = {
+  burmese: "my",
+  castilian: "es",
+  flemish: "nl",
+  haitian: "ht",
+  letzeburgesch: "lb",
+  mandarin: "zh",
+  moldavian: "ro",
+  moldovan: "ro",
+  panjabi: "pa",
+  pushto: "ps",
+  sinhalese: "si",
+  valencian: "ca",
+};
+
+/**
+ * Whether a code is an ISO-639-1 code Whisper supports
+ */
+export function isSupportedLanguage(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, code);
+}
+
+/**
+ * Turn a language reported by a provider ("hindi", "Hindi" or "hi") into
+ * its ISO-639-1 code
+ * @returns The code, or undefined if the language isn't recognized
+ */
+export function toLanguageCode(
+  language: string | undefined | null
+): string | undefined {
+  if (!language) return undefined;
+
+  const value = language.trim().toLowerCase();
+  if (isSupportedLanguage(value)) {
+    return value;
+  }
+  const byName = Object.keys(SUPPORTED_LANGUAGES).find(
+    (code) => SUPPORTED_LANGUAGES[code] === value
+  );
+  return byName || LANGUAGE_ALIASES[value];
+}
@@ -0,0 +1,502 @@
+import { spawn } from "child_process";
+import { extname, resolve } from "path";
+import { SilenceInterval, parseSilenceDetectOutput } from "./chunking.js";
+
+/**
+ * ffmpeg and ffprobe, run with argument arrays and never through a shell, so
+ * nothing in a file path can be interpreted as a command or an option.
+ * Every path must have an extension from ALLOWED_EXTENSIONS and is made
+ * absolute before it is passed on.
+ */
+
+export type MediaTool = "ffmpeg" | "ffprobe";
+
+/**
+ * Extensions media files may have on disk. Uploads with anything else are
+ * stored under a default extension; ffmpeg detects the real format from the
+ * content either way.
+ */
+export const ALLOWED_EXTENSIONS = new Set([
+  "3g2",
+  "3gp",
+  "aac",
+  "ac3",
+  "aif",
+  "aiff",
+  "amr",
+  "avi",
+  "caf",
+  "flac",
+  "m4a",
+  "m4b",
+  "m4v",
+  "mka",
+  "mkv",
+  "mov",
+  "mp2",
+  "mp3",
+  "mp4",
+  "mpeg",
+  "mpga",
+  "oga",
+  "ogg",
+  "opus",
+  "wav",
+  "weba",
+  "webm",
+  "wma",
+  "wmv",
+]);
+
+// Audio codecs accepted in uploads, besides every pcm_* and adpcm_* variant
+const ALLOWED_AUDIO_CODECS = new Set([
+  "aac",
+  "aac_latm",
+  "ac3",
+  "alac",
+  "amr_nb",
+  "amr_wb",
+  "dts",
+  "eac3",
+  "flac",
+  "gsm",
+  "gsm_ms",
+  "mp1",
+  "mp2",
+  "mp3",
+  "opus",
+  "speex",
+  "vorbis",
+  "wmav1",
+  "wmav2",
+  "wmapro",
+]);
+
+// Output of ffmpeg and ffprobe kept in memory before the process is killed
+const MAX_OUTPUT_BYTES = 20 * 1024 * 1024;
+
+// Overwrite outputs, never wait for input, and keep stderr to errors
+const FFMPEG_FLAGS = ["-hide_banner", "-nostdin", "-y", "-v", "error"];
+
+/**
+ * What ffprobe found in a media file: its container and first audio stream
+ */
+export interface AudioProbe {
+  formatName: string; // e.g. "mp3" or "mov,mp4,m4a,3gp,3g2,mj2"
+  codec: string; // Codec of the first audio stream
+  durationSeconds: number | null; // Null when the container doesn't say
+  channels: number | null;
+  sampleRate: number | null; // Hz
+  bitRate: number | null; // Bits per second, of the stream or else the file
+}
+
+/**
+ * Why running ffmpeg or ffprobe failed:
+ * - not_installed: the binary isn't on the PATH
+ * - failed: it exited with an error, usually because of the input file
+ * - timeout: it ran longer than allowed and was killed
+ * - aborted: the caller gave up and it was killed
+ * - invalid_input: a path was refused before anything ran
+ */
+export type MediaErrorReason =
+  | "not_installed"
+  | "failed"
+  | "timeout"
+  | "aborted"
+  | "invalid_input";
+
+/**
+ * A failed ffmpeg or ffprobe run. The message is the last line of stderr,
+ * which names the actual problem without the command line and its paths.
+ */
+export class MediaError extends Error {
+  constructor(
+    message: string,
+    readonly tool: MediaTool,
+    readonly reason: MediaErrorReason,
+    readonly exitCode: number | null = null,
+    readonly stderr: string = "" // Last lines only
+  ) {
+    super(message);
+    this.name = "MediaError";
+  }
+}
+
+export interface MediaRunOptions {
+  timeoutMs?: number; // Kill the process after this long (default: no limit)
+  signal?: AbortSignal; // Kill the process when aborted
+}
+
+/**
+ * Whether an audio codec, as named by ffprobe, is accepted
+ */
+export function isAllowedAudioCodec(codec: string): boolean {
+  return (
+    ALLOWED_AUDIO_CODECS.has(codec) ||
+    codec.startsWith("pcm_") ||
+    codec.startsWith("adpcm_")
+  );
+}
+
+/**
+ * The lower-cased extension of a filename if it is allowed, otherwise the
+ * fallback
+ */
+export function safeExtension(
+  filename: string,
+  fallback: string = "mp3"
+): string {
+  const ext = extname(filename).slice(1).toLowerCase();
+  return ALLOWED_EXTENSIONS.has(ext) ? ext : fallback;
+}
+
+/**
+ * Run ffmpeg or ffprobe with an argument array
+ * @returns Everything the process wrote to stdout and stderr
+ * @throws MediaError if it can't be started, fails, times out or is aborted
+ */
+export function runMediaTool(
+  tool: MediaTool,
+  args: string[],
+  options: MediaRunOptions = {}
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolvePromise, reject) => {
+    if (options.signal?.aborted) {
+      reject(new MediaError(`${tool} was aborted`, tool, "aborted"));
+      return;
+    }
+
+    const child = spawn(tool, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let failure: MediaError | null = null;
+
+    const kill = (error: MediaError) => {
+      failure = failure || error;
+      child.kill("SIGKILL");
+    };
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        kill(new MediaError(`${tool} output too large`, tool, "failed"));
+        return;
+      }
+      chunks.push(chunk);
+    };
+    child.stdout.on("data", collect(stdout));
+    child.stderr.on("data", collect(stderr));
+
+    const timer = options.timeoutMs
+      ? setTimeout(
+          () =>
+            kill(
+              new MediaError(
+                `${tool} timed out after ${options.timeoutMs}ms`,
+                tool,
+                "timeout"
+              )
+            ),
+          options.timeoutMs
+        )
+      : undefined;
+    const onAbort = () =>
+      kill(new MediaError(`${tool} was aborted`, tool, "aborted"));
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    const cleanUp = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    };
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      cleanUp();
+      reject(
+        error.code === "ENOENT"
+          ? new MediaError(
+              `${tool} is not installed or not on the PATH`,
+              tool,
+              "not_installed"
+            )
+          : new MediaError(error.message, tool, "failed")
+      );
+    });
+
+    // A killed process may leave children holding its output open, so don't
+    // wait for the output to close before reporting why it was killed
+    child.on("exit", () => {
+      if (failure) {
+        cleanUp();
+        child.stdout.destroy();
+        child.stderr.destroy();
+        reject(failure);
+      }
+    });
+
+    child.on("close", (code) => {
+      cleanUp();
+      const output = {
+        stdout: Buffer.concat(stdout).toString("utf-8"),
+        stderr: Buffer.concat(stderr).toString("utf-8"),
+      };
+      if (failure) {
+        reject(failure);
+      } else if (code === 0) {
+        resolvePromise(output);
+      } else {
+        const lines = output.stderr.trim().split("\n");
+        reject(
+          new MediaError(
+            lines[lines.length - 1] || `${tool} exited with code ${code}`,
+            tool,
+            "failed",
+            code,
+            lines.slice(-10).join("\n")
+          )
+        );
+      }
+    });
+  });
+}
+
+/**
+ * Version of ffmpeg or ffprobe, from `-version`
+ */
+export async function getToolVersion(
+  tool: MediaTool,
+  options: MediaRunOptions = {}
+): Promise<string | undefined> {
+  const { stdout } = await runMediaTool(tool, ["-version"], options);
+  return /version\s+(\S+)/.exec(stdout)?.[1];
+}
+
+/**
+ * Inspect a file with ffprobe
+ * @returns The container and first audio stream, or null if the file has no
+ * audio stream or isn't a media file at all
+ * @throws MediaError if ffprobe can't be run, times out or is aborted
+ */
+export async function probeAudio(
+  filePath: string,
+  options: MediaRunOptions = {}
+): Promise<AudioProbe | null> {
+  let stdout: string;
+  try {
+    ({ stdout } = await runMediaTool(
+      "ffprobe",
+      [
+        "-v",
+        "error",
+        "-show_entries",
+        "format=format_name,duration,bit_rate:stream=codec_type,codec_name,channels,sample_rate,bit_rate",
+        "-of",
+        "json",
+        "-i",
+        mediaPath(filePath, "ffprobe"),
+      ],
+      options
+    ));
+  } catch (error) {
+    if (error instanceof MediaError && error.reason === "failed") {
+      return null;
+    }
+    throw error;
+  }
+
+  const probe = JSON.parse(stdout);
+  const audioStream = (probe.streams || []).find(
+    (stream: any) => stream.codec_type === "audio"
+  );
+  if (!audioStream) {
+    return null;
+  }
+
+  return {
+    formatName: probe.format?.format_name || "unknown",
+    codec: audioStream.codec_name || "unknown",
+    durationSeconds: toNumber(probe.format?.duration),
+    channels: toNumber(audioStream.channels),
+    sampleRate: toNumber(audioStream.sample_rate),
+    bitRate: toNumber(audioStream.bit_rate) ?? toNumber(probe.format?.bit_rate),
+  };
+}
+
+/**
+ * Convert to a mono 16-bit PCM WAV file
+ */
+export async function convertToWav(
+  inputPath: string,
+  outputPath: string,
+  sampleRate: number,
+  options: MediaRunOptions = {}
+): Promise<void> {
+  await runMediaTool(
+    "ffmpeg",
+    [
+      ...FFMPEG_FLAGS,
+      "-i",
+      mediaPath(inputPath, "ffmpeg"),
+      "-ar",
+      String(sampleRate),
+      "-ac",
+      "1",
+      "-c:a",
+      "pcm_s16le",
+      mediaPath(outputPath, "ffmpeg"),
+    ],
+    options
+  );
+}
+
+/**
+ * Copy a stretch of a file into a new file of the same format, without
+ * re-encoding
+ */
+export async function copySegment(
+  inputPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number,
+  options: MediaRunOptions = {}
+): Promise<void> {
+  await runMediaTool(
+    "ffmpeg",
+    [
+      ...FFMPEG_FLAGS,
+      "-i",
+      mediaPath(inputPath, "ffmpeg"),
+      "-ss",
+      String(startSeconds),
+      "-t",
+      String(durationSeconds),
+      "-c",
+      "copy",
+      mediaPath(outputPath, "ffmpeg"),
+    ],
+    options
+  );
+}
+
+/**
+ * Cut a stretch of a file into a mono WAV file
+ */
+export async function extractWavSegment(
+  inputPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number,
+  sampleRate: number,
+  options: MediaRunOptions = {}
+): Promise<void> {
+  await runMediaTool(
+    "ffmpeg",
+    [
+      ...FFMPEG_FLAGS,
+      "-ss",
+      String(startSeconds),
+      "-t",
+      String(durationSeconds),
+      "-i",
+      mediaPath(inputPath, "ffmpeg"),
+      "-ac",
+      "1",
+      "-ar",
+      String(sampleRate),
+      "-f",
+      "wav",
+      mediaPath(outputPath, "ffmpeg"),
+    ],
+    options
+  );
+}
+
+/**
+ * Join the audio of several files, in order, into one mono WAV file
+ * @param maxSeconds - Length to cut the result to
+ */
+export async function concatToWav(
+  inputPaths: string[],
+  outputPath: string,
+  maxSeconds: number,
+  sampleRate: number,
+  options: MediaRunOptions = {}
+): Promise<void> {
+  const inputs = inputPaths.flatMap((inputPath) => [
+    "-i",
+    mediaPath(inputPath, "ffmpeg"),
+  ]);
+  const streams = inputPaths.map((_, i) => `[${i}:a]`).join("");
+
+  await runMediaTool(
+    "ffmpeg",
+    [
+      ...FFMPEG_FLAGS,
+      ...inputs,
+      "-filter_complex",
+      `${streams}concat=n=${inputPaths.length}:v=0:a=1`,
+      "-t",
+      String(maxSeconds),
+      "-ac",
+      "1",
+      "-ar",
+      String(sampleRate),
+      "-f",
+      "wav",
+      mediaPath(outputPath, "ffmpeg"),
+    ],
+    options
+  );
+}
+
+/**
+ * Find silent stretches with ffmpeg's silencedetect filter
+ * @param noise - Level below which audio counts as silence, e.g. "-35dB"
+ * @param minDurationSeconds - Shortest silence to report
+ */
+export async function detectSilences(
+  inputPath: string,
+  noise: string,
+  minDurationSeconds: number,
+  options: MediaRunOptions = {}
+): Promise<SilenceInterval[]> {
+  // silencedetect reports on stderr; -f null discards the decoded audio
+  const { stderr } = await runMediaTool(
+    "ffmpeg",
+    [
+      "-hide_banner",
+      "-nostdin",
+      "-nostats",
+      "-i",
+      mediaPath(inputPath, "ffmpeg"),
+      "-af",
+      `silencedetect=noise=${noise}:d=${minDurationSeconds}`,
+      "-f",
+      "null",
+      "-",
+    ],
+    options
+  );
+  return parseSilenceDetectOutput(stderr);
+}
+
+/**
+ * An absolute path with an allowed extension. Absolute paths can't be
+ * mistaken for options or for ffmpeg protocols such as `concat:`.
+ * @throws MediaError if the extension isn't allowed
+ */
+function mediaPath(filePath: string, tool: MediaTool): string {
+  const ext = extname(filePath).slice(1).toLowerCase();
+  if (!ALLOWED_EXTENSIONS.has(ext)) {
+    throw new MediaError(
+      `Refusing to pass a .${ext || "(none)"} file to ${tool}`,
+      tool,
+      "invalid_input"
+    );
+  }
+  return resolve(filePath);
+}
+
+function toNumber(value: unknown): number | null {
+  const number = parseFloat(value as string);
+  return isNaN(number) ? null : number;
+}
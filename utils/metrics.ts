@@ -0,0 +1,303 @@
+import { readdir, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+type Labels = Record<string, string>;
+
+/**
+ * A metric that can render itself in the Prometheus text format
+ */
+interface Metric {
+  render(): string[];
+}
+
+/**
+ * Identify a label set independently of the order its keys were given in
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((name) => [name, labels[name]])
+  );
+}
+
+/**
+ * Render labels as `{name="value",...}`, escaped as the format requires
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map(
+      (name) =>
+        `${name}="${labels[name]
+          .replace(/\\/g, "\\\\")
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, "\\n")}"`
+    );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * A value that only goes up, e.g. requests served
+ */
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += amount;
+    } else {
+      this.values.set(key, { labels, value: amount });
+    }
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) =>
+          `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+      ),
+    ];
+  }
+}
+
+/**
+ * A value that goes up and down, e.g. requests in progress
+ */
+export class Gauge implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const entry = this.values.get(labelKey(labels));
+    this.set((entry?.value || 0) + amount, labels);
+  }
+
+  dec(labels: Labels = {}, amount: number = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...[...this.values.values()].map(
+        ({ labels, value }) =>
+          `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Observations counted into cumulative buckets, e.g. request durations
+ */
+export class Histogram implements Metric {
+  private values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private buckets: number[] // Upper bounds, ascending; +Inf is implied
+  ) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = {
+        labels,
+        counts: this.buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      this.values.set(key, entry);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry!.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(seconds, { ...labels, ...extraLabels });
+    };
+  }
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+    ];
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({
+            ...labels,
+            le: formatValue(bound),
+          })} ${counts[i]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics exposed on GET /metrics. Collectors refresh values that are
+ * measured at scrape time rather than as they change.
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Array<() => Promise<void>> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(
+    name: string,
+    help: string,
+    collect?: (gauge: Gauge) => Promise<void>
+  ): Gauge {
+    const gauge = this.register(new Gauge(name, help));
+    if (collect) {
+      this.collectors.push(() => collect(gauge));
+    }
+    return gauge;
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map((collect) => collect()));
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const httpRequestsTotal = metricsRegistry.counter(
+  "transcription_http_requests_total",
+  "HTTP requests by route, method, status and transcription model"
+);
+
+export const httpRequestsInFlight = metricsRegistry.gauge(
+  "transcription_http_requests_in_flight",
+  "HTTP requests being processed, streamed responses included"
+);
+httpRequestsInFlight.set(0);
+
+export const processingSeconds = metricsRegistry.histogram(
+  "transcription_processing_seconds",
+  "Time from receiving a request to having its transcript, by model",
+  [1, 2, 5, 10, 30, 60, 120, 300, 600, 1800, 3600]
+);
+
+export const audioDurationSeconds = metricsRegistry.histogram(
+  "transcription_audio_duration_seconds",
+  "Duration of accepted audio",
+  [10, 30, 60, 300, 600, 1800, 3600, 7200, 14400]
+);
+
+export const chunkCount = metricsRegistry.histogram(
+  "transcription_chunks",
+  "Provider requests a recording was split into (1 when sent whole)",
+  [1, 2, 3, 4, 6, 8, 12, 16, 24, 32]
+);
+
+export const ffmpegSeconds = metricsRegistry.histogram(
+  "transcription_ffmpeg_seconds",
+  "ffmpeg run time by operation (convert, split)",
+  [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120]
+);
+
+export const uploadFormatTotal = metricsRegistry.counter(
+  "transcription_upload_format_total",
+  "How audio was sent to the provider: original, wav_fallback (original refused) or converted"
+);
+
+export const providerRequestSeconds = metricsRegistry.histogram(
+  "transcription_provider_request_seconds",
+  "Provider call latency by provider, operation and outcome, per attempt",
+  [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300]
+);
+
+export const providerErrorsTotal = metricsRegistry.counter(
+  "transcription_provider_errors_total",
+  "Failed provider calls by provider, operation and error type (code), per attempt"
+);
+
+// Uploads, downloads, conversions and chunks all live in the temp directory
+// under a "transcribe-" prefix
+let tempDir = tmpdir();
+
+/**
+ * Measure temporary files in this directory instead of the OS temp directory
+ */
+export function setTempDir(dir: string): void {
+  tempDir = dir;
+}
+
+export const tempBytes = metricsRegistry.gauge(
+  "transcription_temp_bytes",
+  "Bytes of temporary audio files on disk",
+  async (gauge) => {
+    const dir = tempDir;
+    const names = (await readdir(dir).catch(() => [] as string[])).filter(
+      (name) => name.startsWith("transcribe-")
+    );
+    const sizes = await Promise.all(
+      names.map((name) =>
+        stat(join(dir, name)).then(
+          (stats) => (stats.isFile() ? stats.size : 0),
+          () => 0 // Removed since it was listed
+        )
+      )
+    );
+    gauge.set(sizes.reduce((total, size) => total + size, 0));
+  }
+);
@@ -0,0 +1,84 @@
+import { readFileSync } from "fs";
+
+/**
+ * Price of one model in USD. Transcription models are billed by audio
+ * minute, chat models by token.
+ */
+export interface ModelPrice {
+  audioPerMinute?: number;
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+}
+
+/**
+ * Prices by model name
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * OpenAI list prices. Models missing from the table (such as local ones)
+ * are free.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  "whisper-1": { audioPerMinute: 0.006 },
+  "gpt-4o-transcribe": { audioPerMinute: 0.006 },
+  "gpt-4o-mini-transcribe": { audioPerMinute: 0.003 },
+  "gpt-4o-transcribe-diarize": { audioPerMinute: 0.006 },
+  "gpt-4o-mini": { inputPerMillionTokens: 0.15, outputPerMillionTokens: 0.6 },
+  "gpt-4o": { inputPerMillionTokens: 2.5, outputPerMillionTokens: 10 },
+};
+
+/**
+ * Read the price table: the defaults, overridden per model by a JSON file,
+ * e.g. `{"whisper-1": {"audioPerMinute": 0.006}}`
+ * @param filePath - The file with overrides (priceTablePath in the config), if any
+ * @throws If the file can't be read or isn't a JSON object
+ */
+export function loadPriceTable(filePath?: string): PriceTable {
+  if (!filePath) {
+    return { ...DEFAULT_PRICES };
+  }
+
+  const overrides = JSON.parse(readFileSync(filePath, "utf-8"));
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error(`Price table ${filePath} must be a JSON object`);
+  }
+  return { ...DEFAULT_PRICES, ...(overrides as PriceTable) };
+}
+
+/**
+ * Cost of transcribing audio with a model
+ * @returns Cost in USD, or undefined if the model has no audio price
+ */
+export function audioCost(
+  prices: PriceTable,
+  model: string,
+  audioSeconds: number
+): number | undefined {
+  const perMinute = prices[model]?.audioPerMinute;
+  return perMinute === undefined ? undefined : (audioSeconds / 60) * perMinute;
+}
+
+/**
+ * Cost of a chat completion
+ * @returns Cost in USD, or undefined if the model has no token prices
+ */
+export function tokenCost(
+  prices: PriceTable,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined {
+  const price = prices[model];
+  if (
+    price?.inputPerMillionTokens === undefined &&
+    price?.outputPerMillionTokens === undefined
+  ) {
+    return undefined;
+  }
+  return (
+    (promptTokens * (price.inputPerMillionTokens || 0) +
+      completionTokens * (price.outputPerMillionTokens || 0)) /
+    1000000
+  );
+}
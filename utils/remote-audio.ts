@@ -0,0 +1,497 @@
+import http from "http";
+import https from "https";
+import { lookup as dnsLookup, LookupAddress } from "dns";
+import { BlockList, isIP } from "net";
+import { createWriteStream } from "fs";
+import { unlink } from "fs/promises";
+import { basename, join } from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { AppConfig, loadConfig } from "./config.js";
+import { ApiError, ErrorCode } from "./errors.js";
+import { createChildLogger } from "./logger.js";
+import { UploadedFile } from "./upload.js";
+import { safeExtension } from "./media.js";
+
+/**
+ * Which hosts a caller-supplied URL may point at
+ */
+export interface AddressPolicy {
+  blockPrivateAddresses: boolean; // Refuse loopback, private and link-local targets
+  allowedHosts: string[]; // Hosts reachable even when they resolve to private addresses
+}
+
+/**
+ * Limits for downloading audio from a caller-supplied URL
+ */
+export interface RemoteAudioOptions extends AddressPolicy {
+  maxBytes: number;
+  timeoutMs: number; // For the whole download, redirects included
+  maxRedirects: number;
+  tempDir: string; // Where downloads are saved
+}
+
+// Error codes reported for each status a download can fail with
+const REMOTE_AUDIO_ERROR_CODES: Record<number, ErrorCode> = {
+  400: "invalid_audio_url",
+  413: "payload_too_large",
+  415: "unsupported_media",
+  502: "download_failed",
+  504: "download_timeout",
+};
+
+/**
+ * A download that was refused or failed, with the HTTP status to report
+ */
+export class RemoteAudioError extends ApiError {
+  constructor(message: string, status: number) {
+    super(
+      message,
+      status,
+      REMOTE_AUDIO_ERROR_CODES[status] || "download_failed"
+    );
+    this.name = "RemoteAudioError";
+  }
+}
+
+/**
+ * Remote download limits from the application config
+ * @param tempDir - Directory for downloaded files (defaults to the configured temp directory)
+ */
+export function loadRemoteAudioOptions(
+  config: AppConfig = loadConfig(),
+  tempDir: string = config.tempDir
+): RemoteAudioOptions {
+  const { remoteAudio } = config;
+  return {
+    maxBytes: remoteAudio.maxMb * 1024 * 1024,
+    timeoutMs: remoteAudio.timeoutMs,
+    maxRedirects: remoteAudio.maxRedirects,
+    blockPrivateAddresses: remoteAudio.blockPrivateAddresses,
+    allowedHosts: remoteAudio.allowedHosts,
+    tempDir,
+  };
+}
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["2001:db8::", 32], // Documentation
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10], // Deprecated site-local
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * a public internet address
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_RANGES.check(address, "ipv4");
+  if (family !== 6) return true;
+
+  const embedded = embeddedIPv4(address);
+  if (embedded) return isPrivateAddress(embedded);
+  return PRIVATE_RANGES.check(address, "ipv6");
+}
+
+/**
+ * The IPv4 address an IPv6 address carries, however it is written (dotted
+ * as in ::ffff:127.0.0.1 or hex as in ::ffff:7f00:1):
+ * - IPv4-compatible, ::/96
+ * - IPv4-mapped, ::ffff:0:0/96
+ * - NAT64, 64:ff9b::/96
+ * - 6to4, 2002::/16, with the IPv4 address in the second and third hextets
+ * - Teredo, 2001::/32, with the client's IPv4 address inverted in the last
+ *   two hextets
+ */
+function embeddedIPv4(address: string): string | null {
+  const hextets = expandIPv6(address);
+  const zeros = (from: number, to: number) =>
+    hextets.slice(from, to).every((hextet) => hextet === 0);
+
+  let high: number;
+  let low: number;
+  if (hextets[0] === 0x2002) {
+    [high, low] = [hextets[1], hextets[2]];
+  } else if (hextets[0] === 0x2001 && hextets[1] === 0) {
+    [high, low] = [hextets[6] ^ 0xffff, hextets[7] ^ 0xffff];
+  } else if (
+    (zeros(0, 5) && (hextets[5] === 0 || hextets[5] === 0xffff)) ||
+    (hextets[0] === 0x64 && hextets[1] === 0xff9b && zeros(2, 6))
+  ) {
+    [high, low] = [hextets[6], hextets[7]];
+  } else {
+    return null;
+  }
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+/**
+ * The eight hextets of a valid IPv6 address
+ */
+function expandIPv6(address: string): number[] {
+  let value = address.split("%")[0].toLowerCase();
+
+  // A trailing dotted IPv4 address stands for the last two hextets
+  const dotted = value.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    const high = ((a << 8) | b).toString(16);
+    const low = ((c << 8) | d).toString(16);
+    value = `${dotted[1]}${high}:${low}`;
+  }
+
+  const parse = (part: string) =>
+    part ? part.split(":").map((hextet) => parseInt(hextet, 16)) : [];
+  const [head, tail] = value.split("::");
+  if (tail === undefined) {
+    return parse(head);
+  }
+  const start = parse(head);
+  const end = parse(tail);
+  return [
+    ...start,
+    ...new Array(8 - start.length - end.length).fill(0),
+    ...end,
+  ];
+}
+
+const ACCEPTED_CONTENT_TYPES = [
+  /^audio\//,
+  /^video\//,
+  /^application\/octet-stream$/,
+  /^binary\/octet-stream$/,
+  /^application\/ogg$/,
+];
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "audio/mp4": "m4a",
+  "audio/x-m4a": "m4a",
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "application/ogg": "ogg",
+  "audio/flac": "flac",
+  "audio/x-flac": "flac",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+};
+
+/**
+ * Stream audio from an http(s) URL into a temporary file.
+ *
+ * Every hop (the URL and each redirect) is checked: only http and https,
+ * and, unless allowed, no hosts resolving to private addresses. The address
+ * that passed the check is the one connected to, so DNS can't be switched
+ * between the check and the request. The download is capped in size and
+ * time, and the partial file is removed on failure.
+ * @throws RemoteAudioError with the HTTP status to report
+ */
+export async function downloadAudio(
+  url: string,
+  log: ReturnType<typeof createChildLogger>,
+  options: RemoteAudioOptions
+): Promise<UploadedFile> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let current = checkRemoteUrl(url, options);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await requestUrl(current, options, signal);
+      const status = response.statusCode || 0;
+
+      if ([301, 302, 303, 307, 308].includes(status)) {
+        response.resume();
+        const location = response.headers.location;
+        if (!location) {
+          throw new RemoteAudioError(
+            `Remote server returned HTTP ${status} without a Location header`,
+            502
+          );
+        }
+        if (redirects >= options.maxRedirects) {
+          throw new RemoteAudioError(
+            `Too many redirects (limit ${options.maxRedirects})`,
+            502
+          );
+        }
+        current = checkRemoteUrl(
+          new URL(location, current).toString(),
+          options
+        );
+        log.debug({ location: loggableUrl(current) }, "Following redirect");
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new RemoteAudioError(
+          `Remote server returned HTTP ${status}`,
+          502
+        );
+      }
+
+      const contentType = (response.headers["content-type"] || "")
+        .split(";")[0]
+        .trim()
+        .toLowerCase();
+      if (
+        contentType &&
+        !ACCEPTED_CONTENT_TYPES.some((pattern) => pattern.test(contentType))
+      ) {
+        response.resume();
+        throw new RemoteAudioError(
+          `Remote file has unsupported content type "${contentType}"; expected audio or video`,
+          415
+        );
+      }
+
+      const contentLength = parseInt(response.headers["content-length"] || "");
+      if (contentLength > options.maxBytes) {
+        response.resume();
+        throw tooLargeError(options);
+      }
+
+      return await saveResponse(
+        response,
+        current,
+        contentType,
+        log,
+        options,
+        signal
+      );
+    }
+  } catch (error) {
+    if (error instanceof RemoteAudioError) {
+      throw error;
+    }
+    if (signal.aborted) {
+      throw new RemoteAudioError(
+        `Timed out downloading audio after ${Math.round(
+          options.timeoutMs / 1000
+        )}s`,
+        504
+      );
+    }
+    throw new RemoteAudioError(
+      `Could not download audio: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      502
+    );
+  }
+}
+
+/**
+ * Parse a URL and reject schemes and literal IPs that may not be fetched
+ */
+function checkRemoteUrl(value: string, options: RemoteAudioOptions): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new RemoteAudioError("audioUrl must be a valid URL", 400);
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new RemoteAudioError("audioUrl must use http or https", 400);
+  }
+
+  // Literal IPs are connected to without a DNS lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && isBlockedAddress(host, host, options)) {
+    throw blockedError(host);
+  }
+
+  return url;
+}
+
+/**
+ * Whether a policy refuses connecting to an address a host resolved to
+ */
+export function isBlockedAddress(
+  hostname: string,
+  address: string,
+  policy: AddressPolicy
+): boolean {
+  return (
+    policy.blockPrivateAddresses &&
+    !policy.allowedHosts.includes(hostname.toLowerCase()) &&
+    isPrivateAddress(address)
+  );
+}
+
+/**
+ * A DNS lookup for http(s) requests that fails with onBlocked(hostname)
+ * when a host resolves to an address the policy refuses. The address that
+ * passed the check is the one connected to, so DNS can't be switched
+ * between the check and the request.
+ */
+export function createPinnedLookup(
+  policy: AddressPolicy,
+  onBlocked: (hostname: string) => Error
+) {
+  return (
+    hostname: string,
+    lookupOptions: any,
+    callback: (...args: any[]) => void
+  ) => {
+    dnsLookup(
+      hostname,
+      { ...lookupOptions, all: true },
+      (error, addresses: LookupAddress[]) => {
+        if (error) return callback(error);
+
+        if (
+          addresses.some((a) => isBlockedAddress(hostname, a.address, policy))
+        ) {
+          return callback(onBlocked(hostname));
+        }
+        if (lookupOptions?.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      }
+    );
+  };
+}
+
+/**
+ * A URL without its query, fragment or credentials, which often hold
+ * signed tokens that don't belong in logs
+ */
+function loggableUrl(url: URL): string {
+  return `${url.origin}${url.pathname}`;
+}
+
+function blockedError(hostname: string): RemoteAudioError {
+  return new RemoteAudioError(
+    `audioUrl host ${hostname} resolves to a private or loopback address`,
+    400
+  );
+}
+
+function tooLargeError(options: RemoteAudioOptions): RemoteAudioError {
+  return new RemoteAudioError(
+    `Remote file exceeds the ${Math.round(
+      options.maxBytes / (1024 * 1024)
+    )}MB download limit`,
+    413
+  );
+}
+
+/**
+ * Send a GET request, resolving once response headers arrive
+ */
+function requestUrl(
+  url: URL,
+  options: RemoteAudioOptions,
+  signal: AbortSignal
+): Promise<http.IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+
+  // Resolve the host ourselves and refuse blocked addresses
+  const lookup = createPinnedLookup(options, blockedError);
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(
+      url,
+      {
+        lookup,
+        signal,
+        headers: { "User-Agent": "api-audio-transcript" },
+      },
+      resolve
+    );
+    request.on("error", reject);
+  });
+}
+
+/**
+ * Stream a response body to a temporary file, enforcing the size cap
+ */
+async function saveResponse(
+  response: http.IncomingMessage,
+  url: URL,
+  contentType: string,
+  log: ReturnType<typeof createChildLogger>,
+  options: RemoteAudioOptions,
+  signal: AbortSignal
+): Promise<UploadedFile> {
+  let filename = basename(url.pathname);
+  try {
+    filename = decodeURIComponent(filename);
+  } catch {
+    // Keep the encoded name
+  }
+  filename = filename || "remote-audio";
+
+  // The extension is passed on to ffmpeg, so only allowed ones are kept
+  const ext = safeExtension(
+    filename,
+    CONTENT_TYPE_EXTENSIONS[contentType] || "mp3"
+  );
+  const uniqueId = `${Date.now()}-${Math.random()
+    .toString(36)
+    .substring(2, 9)}`;
+  const filePath = join(options.tempDir, `transcribe-${uniqueId}.${ext}`);
+
+  let receivedBytes = 0;
+  const sizeLimit = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      receivedBytes += chunk.length;
+      if (receivedBytes > options.maxBytes) {
+        callback(tooLargeError(options));
+      } else {
+        callback(null, chunk);
+      }
+    },
+  });
+
+  log.info(
+    { url: loggableUrl(url), tempFilePath: filePath, contentType },
+    "Streaming remote audio to temporary file"
+  );
+
+  try {
+    await pipeline(response, sizeLimit, createWriteStream(filePath), {
+      signal,
+    });
+  } catch (error) {
+    await unlink(filePath).catch(() => {});
+    throw error;
+  }
+
+  log.info(
+    { receivedBytes, tempFilePath: filePath },
+    "Remote download completed"
+  );
+  return { filePath, filename };
+}
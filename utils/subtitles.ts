@@ -0,0 +1,308 @@
+import type { TranscriptSegment } from "../services/transcription-service.js";
+
+export type SubtitleFormat = "srt" | "vtt";
+
+/**
+ * Readability rules applied when turning transcript segments into cues
+ */
+export interface SubtitleRules {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCharsPerSecond: number;
+  minCueDurationSec: number;
+  maxCueDurationSec: number;
+}
+
+/**
+ * A single subtitle cue, already broken into display lines
+ */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// Common broadcast guidelines (e.g. BBC/Netflix): 42 chars x 2 lines, ~17 CPS
+export const DEFAULT_SUBTITLE_RULES: SubtitleRules = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  maxCharsPerSecond: 17,
+  minCueDurationSec: 1,
+  maxCueDurationSec: 7,
+};
+
+export const SUBTITLE_CONTENT_TYPES: Record<SubtitleFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+};
+
+/**
+ * Render transcript segments as an SRT or WebVTT document
+ */
+export function renderSubtitles(
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+  rules: SubtitleRules = DEFAULT_SUBTITLE_RULES
+): string {
+  const cues = buildSubtitleCues(segments, rules);
+  return format === "srt" ? formatSrt(cues) : formatVtt(cues);
+}
+
+/**
+ * Split segments into cues that respect the readability rules.
+ *
+ * Segments only carry start/end times, so word timings are interpolated in
+ * proportion to word length. Cues are closed when the text would no longer
+ * fit in `maxLinesPerCue` lines, when they would exceed `maxCueDurationSec`
+ * (or take longer than that to read at `maxCharsPerSecond`), or at sentence
+ * ends once the cue has been on screen long enough.
+ */
+export function buildSubtitleCues(
+  segments: TranscriptSegment[],
+  rules: SubtitleRules = DEFAULT_SUBTITLE_RULES
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    const words = segment.text.split(/\s+/).filter((word) => word.length > 0);
+    if (words.length === 0) {
+      continue;
+    }
+
+    // Approximate word timings within the segment
+    const duration = Math.max(0, segment.end - segment.start);
+    const totalChars = words.reduce((sum, word) => sum + word.length + 1, 0);
+    let cursor = segment.start;
+    const timedWords = words.map((word) => {
+      const wordDuration = (duration * (word.length + 1)) / totalChars;
+      const timed = { word, start: cursor, end: cursor + wordDuration };
+      cursor += wordDuration;
+      return timed;
+    });
+
+    let current: typeof timedWords = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      cues.push({
+        start: current[0].start,
+        end: current[current.length - 1].end,
+        lines: breakLines(
+          current.map((w) => w.word),
+          rules
+        ),
+      });
+      current = [];
+    };
+
+    for (const timedWord of timedWords) {
+      if (current.length > 0) {
+        const candidate = [...current, timedWord].map((w) => w.word);
+        const fitsLines =
+          wrapWords(candidate, rules.maxCharsPerLine).length <=
+          rules.maxLinesPerCue;
+        const fitsDuration =
+          timedWord.end - current[0].start <= rules.maxCueDurationSec &&
+          candidate.join(" ").length / rules.maxCharsPerSecond <=
+            rules.maxCueDurationSec;
+        const last = current[current.length - 1];
+        const atSentenceEnd =
+          /[.?!।]$/.test(last.word) &&
+          last.end - current[0].start >= rules.minCueDurationSec;
+
+        if (!fitsLines || !fitsDuration || atSentenceEnd) {
+          flush();
+        }
+      }
+      current.push(timedWord);
+    }
+    flush();
+  }
+
+  return applyTimingRules(cues, rules);
+}
+
+/**
+ * Serialize cues as SubRip (.srt)
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(
+          cue.end,
+          ","
+        )}\n${cue.lines.join("\n")}\n`
+    )
+    .join("\n");
+}
+
+/**
+ * Serialize cues as WebVTT (.vtt)
+ */
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(
+          cue.end,
+          "."
+        )}\n${cue.lines.join("\n")}\n`
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Enforce minimum/maximum duration and the characters-per-second limit.
+ * A cue that can't stay on screen long enough before the next one starts is
+ * merged with it, if the text still fits one cue. Otherwise it is extended
+ * into the gap before the next cue, then started earlier into the gap after
+ * the previous cue, and as a last resort the following cues are pushed
+ * back. Cues never overlap, so during fast speech subtitles may lag the
+ * audio until the next pause catches them up.
+ */
+function applyTimingRules(
+  cues: SubtitleCue[],
+  rules: SubtitleRules
+): SubtitleCue[] {
+  const merged: SubtitleCue[] = [];
+  for (const cue of cues) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      cue.start - previous.start < requiredDuration(previous, rules)
+    ) {
+      const combined = mergeCues(previous, cue, rules);
+      if (combined) {
+        merged[merged.length - 1] = combined;
+        continue;
+      }
+    }
+    merged.push({ ...cue });
+  }
+
+  let previousEnd = 0;
+  for (let i = 0; i < merged.length; i++) {
+    const cue = merged[i];
+    const nextStart = i < merged.length - 1 ? merged[i + 1].start : Infinity;
+
+    cue.start = Math.max(cue.start, previousEnd);
+    cue.end = Math.max(cue.end, cue.start);
+
+    const required = requiredDuration(cue, rules);
+    if (cue.end - cue.start < required) {
+      cue.end = Math.max(cue.end, Math.min(cue.start + required, nextStart));
+    }
+    if (cue.end - cue.start < required) {
+      cue.start = Math.max(previousEnd, cue.end - required);
+    }
+    if (cue.end - cue.start < required) {
+      // The next cue starts no earlier than this one ends
+      cue.end = cue.start + required;
+    }
+    if (cue.end - cue.start > rules.maxCueDurationSec) {
+      cue.end = cue.start + rules.maxCueDurationSec;
+    }
+    previousEnd = cue.end;
+  }
+  return merged;
+}
+
+/**
+ * How long a cue must be shown: long enough to read at maxCharsPerSecond,
+ * at least minCueDurationSec and at most maxCueDurationSec
+ */
+function requiredDuration(cue: SubtitleCue, rules: SubtitleRules): number {
+  const chars = cue.lines.join(" ").length;
+  return Math.min(
+    rules.maxCueDurationSec,
+    Math.max(rules.minCueDurationSec, chars / rules.maxCharsPerSecond)
+  );
+}
+
+/**
+ * One cue holding the text of two consecutive cues
+ * @returns Null if the text doesn't fit one cue's lines, or the combined cue
+ * would be on screen or take to read longer than maxCueDurationSec
+ */
+function mergeCues(
+  first: SubtitleCue,
+  second: SubtitleCue,
+  rules: SubtitleRules
+): SubtitleCue | null {
+  const words = [...first.lines, ...second.lines].join(" ").split(" ");
+  const lines = breakLines(words, rules);
+  const combined = { start: first.start, end: second.end, lines };
+  if (
+    lines.length > rules.maxLinesPerCue ||
+    combined.end - combined.start > rules.maxCueDurationSec ||
+    words.join(" ").length / rules.maxCharsPerSecond > rules.maxCueDurationSec
+  ) {
+    return null;
+  }
+  return combined;
+}
+
+/**
+ * Break a cue's words into display lines. Two-line cues are balanced so the
+ * lines have similar length, which is easier to read than a greedy wrap.
+ */
+function breakLines(words: string[], rules: SubtitleRules): string[] {
+  const greedy = wrapWords(words, rules.maxCharsPerLine);
+  if (greedy.length !== 2) {
+    return greedy;
+  }
+
+  let best: string[] = greedy;
+  let bestDiff = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(" ");
+    const second = words.slice(i).join(" ");
+    if (
+      first.length > rules.maxCharsPerLine ||
+      second.length > rules.maxCharsPerLine
+    ) {
+      continue;
+    }
+    const diff = Math.abs(first.length - second.length);
+    if (diff < bestDiff) {
+      best = [first, second];
+      bestDiff = diff;
+    }
+  }
+  return best;
+}
+
+/**
+ * Greedy word wrap. A single word longer than the limit gets its own line.
+ */
+function wrapWords(words: string[], maxCharsPerLine: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of words) {
+    if (line && line.length + 1 + word.length > maxCharsPerLine) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Format seconds as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length: number = 2) =>
+    value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
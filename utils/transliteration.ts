@@ -0,0 +1,473 @@
+import Sanscript from "@indic-transliteration/sanscript";
+
+/**
+ * Output scripts for transliterated transcripts:
+ * - Brahmic scripts ("devanagari", "bengali", ...)
+ * - Sanscript romanizations ("iast", "itrans", "hk", ...)
+ * - "latin": plain ASCII romanization (IAST without diacritics, "ch"/"sh"
+ *   spellings), for tools that only handle basic Latin text
+ */
+export const TRANSLITERATION_SCRIPTS = [
+  "devanagari",
+  "bengali",
+  "gurmukhi",
+  "gujarati",
+  "oriya",
+  "tamil",
+  "telugu",
+  "kannada",
+  "malayalam",
+  "iast",
+  "iso",
+  "itrans",
+  "hk",
+  "slp1",
+  "velthuis",
+  "wx",
+  "latin",
+] as const;
+
+export type TransliterationScript = (typeof TRANSLITERATION_SCRIPTS)[number];
+
+const ROMAN_SCRIPTS: TransliterationScript[] = [
+  "iast",
+  "iso",
+  "itrans",
+  "hk",
+  "slp1",
+  "velthuis",
+  "wx",
+  "latin",
+];
+
+// Unicode blocks of the Brahmic scripts Sanscript reads
+const BRAHMIC_BLOCKS: Array<{ scheme: string; start: number }> = [
+  { scheme: "devanagari", start: 0x0900 },
+  { scheme: "bengali", start: 0x0980 },
+  { scheme: "gurmukhi", start: 0x0a00 },
+  { scheme: "gujarati", start: 0x0a80 },
+  { scheme: "oriya", start: 0x0b00 },
+  { scheme: "tamil", start: 0x0b80 },
+  { scheme: "telugu", start: 0x0c00 },
+  { scheme: "kannada", start: 0x0c80 },
+  { scheme: "malayalam", start: 0x0d00 },
+];
+
+// Perso-Arabic text is read as Urdu
+const URDU = "urdu";
+
+export function isTransliterationScript(
+  value: string
+): value is TransliterationScript {
+  return (TRANSLITERATION_SCRIPTS as readonly string[]).includes(value);
+}
+
+/**
+ * Transliterate a transcript into another script. Each run of Indic or
+ * Perso-Arabic letters is converted on its own, so mixed-script text
+ * (Hindi and Urdu words side by side, or English loanwords in Latin script)
+ * works; everything else is kept as is.
+ *
+ * Urdu is first normalized to Devanagari, so Hindustani text ends up in a
+ * single script. Romanizations drop the inherent vowel at the end of Hindi
+ * words ("kamal", not "kamala").
+ * @throws If the script isn't one of TRANSLITERATION_SCRIPTS; Sanscript
+ * would otherwise fail on some names and silently accept others
+ */
+export function transliterate(
+  text: string,
+  script: TransliterationScript
+): string {
+  if (!isTransliterationScript(script)) {
+    throw new Error(`Unknown transliteration script: ${script}`);
+  }
+
+  const roman = ROMAN_SCRIPTS.includes(script);
+  const scheme = script === "latin" ? "iast" : script;
+
+  const converted = splitScriptRuns(text)
+    .map(({ run, source }) => {
+      if (!source) {
+        const text = mapUrduPunctuation(run);
+        return roman ? text.replace(/[।॥]/g, ".") : text;
+      }
+
+      let from = source;
+      let value = run;
+      if (source === URDU) {
+        value = urduWordToDevanagari(run);
+        from = "devanagari";
+      }
+      if (from === "devanagari") {
+        value = composeNukta(value);
+        if (roman) {
+          value = dropFinalSchwa(value);
+        }
+      }
+      return from === scheme ? value : Sanscript.t(value, from, scheme);
+    })
+    .join("");
+
+  return script === "latin" ? toPlainLatin(converted) : converted;
+}
+
+/**
+ * Rewrite the Urdu (Perso-Arabic) words of a text in Devanagari, leaving
+ * other text untouched. Urdu usually omits short vowels, so the result is a
+ * normalization for search and reading, not an exact spelling.
+ */
+export function urduToDevanagari(text: string): string {
+  return splitScriptRuns(text)
+    .map(({ run, source }) =>
+      source === URDU
+        ? urduWordToDevanagari(run)
+        : source
+        ? run
+        : mapUrduPunctuation(run)
+    )
+    .join("");
+}
+
+/**
+ * Split text into runs of letters of one script. Spaces, digits and
+ * punctuation form runs with no source script.
+ */
+function splitScriptRuns(
+  text: string
+): Array<{ run: string; source: string | null }> {
+  const runs: Array<{ run: string; source: string | null }> = [];
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    let source: string | null;
+    if (code === 0x200c || code === 0x200d) {
+      // Zero-width (non-)joiners belong to the word they sit in
+      source = runs.length > 0 ? runs[runs.length - 1].source : null;
+    } else if (isArabicLetter(code)) {
+      source = URDU;
+    } else {
+      const block = BRAHMIC_BLOCKS.find(
+        (b) => code >= b.start && code < b.start + 0x80
+      );
+      // Danda and double danda are shared punctuation, not letters
+      source =
+        block && code !== 0x0964 && code !== 0x0965 ? block.scheme : null;
+    }
+
+    const last = runs[runs.length - 1];
+    if (last && last.source === source) {
+      last.run += char;
+    } else {
+      runs.push({ run: char, source });
+    }
+  }
+
+  return runs;
+}
+
+function isArabicLetter(code: number): boolean {
+  return (
+    (code >= 0x0600 && code <= 0x06ff && !URDU_PUNCTUATION[code]) ||
+    (code >= 0x0750 && code <= 0x077f) ||
+    (code >= 0xfb50 && code <= 0xfdff) ||
+    (code >= 0xfe70 && code <= 0xfeff)
+  );
+}
+
+/**
+ * Urdu punctuation, mapped outside letter runs
+ */
+const URDU_PUNCTUATION: Record<number, string> = {
+  0x060c: ",", // ،
+  0x061b: ";", // ؛
+  0x061f: "?", // ؟
+  0x06d4: "।", // ۔
+};
+
+function mapUrduPunctuation(text: string): string {
+  return text.replace(
+    /[\u060c\u061b\u061f\u06d4]/g,
+    (char) => URDU_PUNCTUATION[char.codePointAt(0)!]
+  );
+}
+
+/**
+ * Precomposed nukta consonants, which Sanscript expects
+ */
+const NUKTA_CONSONANTS: Record<string, string> = {
+  क: "\u0958",
+  ख: "\u0959",
+  ग: "\u095a",
+  ज: "\u095b",
+  ड: "\u095c",
+  ढ: "\u095d",
+  फ: "\u095e",
+  य: "\u095f",
+};
+
+function composeNukta(word: string): string {
+  return word.replace(
+    /([कखगजडढफय])\u093c/g,
+    (_, consonant: string) => NUKTA_CONSONANTS[consonant]
+  );
+}
+
+/**
+ * Add a virama to a word-final consonant so its inherent vowel isn't
+ * romanized, as Hindi doesn't pronounce it. Single letters keep it.
+ */
+function dropFinalSchwa(word: string): string {
+  const chars = [...word];
+  const last = chars[chars.length - 1].codePointAt(0)!;
+  const isConsonant =
+    (last >= 0x0915 && last <= 0x0939) || (last >= 0x0958 && last <= 0x095f);
+  return chars.length > 1 && isConsonant ? `${word}\u094d` : word;
+}
+
+/**
+ * IAST to plain ASCII in the spelling common for romanized Hindi
+ */
+function toPlainLatin(text: string): string {
+  return text
+    .replace(/ch|c/g, (match) => (match === "ch" ? "chh" : "ch"))
+    .replace(/[śṣ]/g, "sh")
+    .replace(/[ṃṁ~]/g, "n")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
+
+// Common Hindustani words whose Urdu spelling the letter rules get wrong
+const URDU_WORDS: Record<string, string> = {
+  اور: "और",
+  ہے: "है",
+  ہیں: "हैं",
+  ہوں: "हूँ",
+  کہ: "कि",
+  یہ: "यह",
+  وہ: "वह",
+  کیا: "क्या",
+  نہیں: "नहीं",
+  اس: "इस",
+  ان: "इन",
+  اگر: "अगर",
+  تھا: "था",
+  تھی: "थी",
+  تھے: "थे",
+  مجھے: "मुझे",
+  تم: "तुम",
+  کچھ: "कुछ",
+  بہت: "बहुत",
+  کیوں: "क्यों",
+  میں: "में",
+  کیسے: "कैसे",
+};
+
+const URDU_CONSONANTS: Record<string, string> = {
+  ب: "ब",
+  پ: "प",
+  ت: "त",
+  ٹ: "ट",
+  ث: "स",
+  ج: "ज",
+  چ: "च",
+  ح: "ह",
+  خ: "\u0959",
+  د: "द",
+  ڈ: "ड",
+  ذ: "\u095b",
+  ر: "र",
+  ڑ: "\u095c",
+  ز: "\u095b",
+  ژ: "\u095b",
+  س: "स",
+  ش: "श",
+  ص: "स",
+  ض: "\u095b",
+  ط: "त",
+  ظ: "\u095b",
+  غ: "\u095a",
+  ف: "\u095e",
+  ق: "\u0958",
+  ک: "क",
+  ك: "क",
+  گ: "ग",
+  ل: "ल",
+  م: "म",
+  ن: "न",
+  ہ: "ह",
+  ه: "ह",
+  ة: "त",
+};
+
+// Consonant + do-chashmi he (ھ) -> aspirated consonant
+const ASPIRATED: Record<string, string> = {
+  ब: "भ",
+  प: "फ",
+  त: "थ",
+  ट: "ठ",
+  ज: "झ",
+  च: "छ",
+  द: "ध",
+  ड: "ढ",
+  "\u095c": "\u095d", // ड़ -> ढ़
+  क: "ख",
+  ग: "घ",
+};
+
+const URDU_DIACRITICS: Record<string, string> = {
+  "\u064e": "", // Zabar: the inherent vowel
+  "\u0650": "\u093f", // Zer: ि
+  "\u064f": "\u0941", // Pesh: ु
+  "\u0652": "\u094d", // Jazm: virama
+  "\u0670": "\u093e", // Khari zabar: ा
+  "\u064b": "न", // Do zabar (-an)
+};
+
+const URDU_DIGITS = "۰۱۲۳۴۵۶۷۸۹";
+const ARABIC_DIGITS = "٠١٢٣٤٥٦٧٨٩";
+
+/**
+ * Convert one Urdu word to Devanagari with letter rules: alif, vao and ye
+ * become vowel signs after consonants and consonants elsewhere
+ */
+function urduWordToDevanagari(word: string): string {
+  const known = URDU_WORDS[word.replace(/[\u064b-\u0652\u0670]/g, "")];
+  if (known) return known;
+
+  const chars = [...word];
+  let out = "";
+  let lastConsonant = ""; // Consonant just written, without a vowel sign
+  let atStart = true;
+
+  const consonant = (value: string) => {
+    out += value;
+    lastConsonant = value;
+    atStart = false;
+  };
+  const vowel = (sign: string, independent: string) => {
+    out += lastConsonant ? sign : independent;
+    lastConsonant = "";
+    atStart = false;
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+    const isLast = i === chars.length - 1;
+
+    if (URDU_DIGITS.includes(char) || ARABIC_DIGITS.includes(char)) {
+      const digit = Math.max(
+        URDU_DIGITS.indexOf(char),
+        ARABIC_DIGITS.indexOf(char)
+      );
+      out += String.fromCharCode(0x0966 + digit);
+      lastConsonant = "";
+      continue;
+    }
+
+    switch (char) {
+      case "ا":
+        if (atStart) {
+          // Initial alif carries the vowel written after it
+          if (next === "و") {
+            out += "ओ";
+            i++;
+            atStart = false;
+          } else if (next === "ی") {
+            out += "ए";
+            i++;
+            atStart = false;
+          } else {
+            vowel("", "अ");
+          }
+        } else {
+          vowel("ा", "आ");
+        }
+        break;
+      case "آ":
+        vowel("ा", "आ");
+        break;
+      case "و":
+        if (atStart || next === "ا" || !lastConsonant) {
+          consonant("व");
+        } else {
+          vowel("ो", "ओ");
+        }
+        break;
+      case "ی":
+      case "ي":
+        if (atStart || next === "ا" || next === "و") {
+          consonant("य");
+        } else if (isLast || next === "ں") {
+          vowel("ी", "ई");
+        } else if (lastConsonant) {
+          vowel("े", "ए");
+        } else {
+          consonant("य");
+        }
+        break;
+      case "ے":
+      case "ۓ":
+        vowel("े", "ए");
+        break;
+      case "ئ":
+        // Hamza seat: the vowel after it is written independently
+        if (next === "ے") {
+          out += "ए";
+          i++;
+        } else if (next === "ی") {
+          out += i + 1 === chars.length - 1 ? "ई" : "ए";
+          i++;
+        } else {
+          out += "इ";
+        }
+        lastConsonant = "";
+        atStart = false;
+        break;
+      case "ؤ":
+        vowel("ो", "ओ");
+        break;
+      case "ء":
+        break;
+      case "ع":
+        if (atStart) vowel("", "अ");
+        break;
+      case "ں":
+        out += "ं";
+        break;
+      case "ھ":
+        if (ASPIRATED[lastConsonant]) {
+          out = out.slice(0, -lastConsonant.length) + ASPIRATED[lastConsonant];
+          lastConsonant = ASPIRATED[lastConsonant];
+        } else {
+          consonant("ह");
+        }
+        break;
+      case "\u0651": // Shadda: doubled consonant
+        if (lastConsonant) {
+          out += `\u094d${lastConsonant}`;
+        }
+        break;
+      case "\u200c": // Zero-width non-joiner and joiner
+      case "\u200d":
+        break;
+      default:
+        if (URDU_CONSONANTS[char]) {
+          consonant(URDU_CONSONANTS[char]);
+        } else if (URDU_DIACRITICS[char] !== undefined) {
+          const sign = URDU_DIACRITICS[char];
+          if (sign === "न") {
+            consonant(sign);
+          } else if (lastConsonant || !sign) {
+            out += sign;
+            lastConsonant = "";
+          }
+        } else {
+          out += char;
+          lastConsonant = "";
+        }
+    }
+  }
+
+  return out;
+}
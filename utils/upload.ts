@@ -0,0 +1,255 @@
+import { Context } from "hono";
+import Busboy from "busboy";
+import { createWriteStream } from "fs";
+import { unlink } from "fs/promises";
+import { join } from "path";
+import { tmpdir } from "os";
+import { Readable } from "stream";
+import { AppConfig, loadConfig } from "./config.js";
+import { PayloadTooLargeError, ValidationError } from "./errors.js";
+import { createChildLogger } from "./logger.js";
+import { safeExtension } from "./media.js";
+
+/**
+ * Limits for audio sent to the API, from uploads or audioUrl downloads
+ */
+export interface UploadOptions {
+  fieldName: string; // Multipart field holding the audio file
+  maxBytes: number;
+  maxDurationSeconds: number; // 0 for no limit
+  tempDir: string; // Where uploads are streamed to
+}
+
+/**
+ * Upload limits from the application config
+ * @param tempDir - Directory for uploaded files (defaults to the configured temp directory)
+ */
+export function loadUploadOptions(
+  config: AppConfig = loadConfig(),
+  tempDir: string = config.tempDir
+): UploadOptions {
+  return {
+    fieldName: config.upload.fieldName,
+    maxBytes: config.upload.maxMb * 1024 * 1024,
+    maxDurationSeconds: config.upload.maxAudioDurationSeconds,
+    tempDir,
+  };
+}
+
+/**
+ * A file from a multipart upload, streamed to a temporary path
+ */
+export interface UploadedFile {
+  filePath: string;
+  filename: string;
+}
+
+/**
+ * Result of streaming a multipart audio upload to disk
+ */
+export interface AudioUpload extends UploadedFile {
+  fields: Record<string, string>;
+}
+
+/**
+ * Result of streaming every file of one multipart field to disk
+ */
+export interface FileUploads {
+  files: UploadedFile[];
+  fields: Record<string, string>;
+}
+
+/**
+ * Stream the audio field of a multipart/form-data request into a temporary
+ * file and collect the remaining text fields.
+ *
+ * The partially written file is removed if the upload fails.
+ * @param c - Hono request context
+ * @param log - Request-scoped logger
+ * @param options - Audio field name, size limit and temp directory
+ * @returns Path of the temporary file, original filename and form fields
+ * @throws PayloadTooLargeError if the file exceeds the size limit
+ */
+export async function receiveAudioUpload(
+  c: Context,
+  log: ReturnType<typeof createChildLogger>,
+  options: UploadOptions
+): Promise<AudioUpload> {
+  const { files, fields } = await receiveFileUploads(
+    c,
+    log,
+    options.fieldName,
+    1,
+    options.maxBytes,
+    options.tempDir
+  );
+  return { ...files[0], fields };
+}
+
+/**
+ * Stream up to `maxFiles` files sent in one multipart/form-data field into
+ * temporary files and collect the text fields. Files in other fields, and
+ * files past the limit, are skipped.
+ *
+ * Every file written so far is removed if the upload fails.
+ * @param c - Hono request context
+ * @param log - Request-scoped logger
+ * @param fieldName - Multipart field holding the files
+ * @param maxFiles - Maximum number of files to keep
+ * @param maxBytes - Maximum size of each file
+ * @param tempDir - Directory to write the files to
+ * @returns Temporary files in upload order, and form fields
+ * @throws PayloadTooLargeError if a file exceeds the size limit
+ */
+export async function receiveFileUploads(
+  c: Context,
+  log: ReturnType<typeof createChildLogger>,
+  fieldName: string,
+  maxFiles: number,
+  maxBytes: number,
+  tempDir: string = tmpdir()
+): Promise<FileUploads> {
+  const contentType = c.req.header("content-type") || "";
+
+  const uniqueId = `${Date.now()}-${Math.random()
+    .toString(36)
+    .substring(2, 9)}`;
+  const files: UploadedFile[] = [];
+  let nodeStream: Readable | undefined;
+
+  try {
+    return await new Promise<FileUploads>((resolve, reject) => {
+      try {
+        const bb = Busboy({
+          headers: { "content-type": contentType },
+          limits: { fileSize: maxBytes },
+        });
+        const fields: Record<string, string> = {};
+        let pendingWrites = 0;
+        let busboyFinished = false;
+        let resolved = false;
+
+        const tryResolve = () => {
+          if (resolved) return;
+          if (busboyFinished && pendingWrites === 0 && files.length > 0) {
+            resolved = true;
+            resolve({ files, fields });
+          }
+        };
+
+        bb.on("file", (name, file, info) => {
+          log.debug(
+            { field: name, filename: info.filename },
+            "Received file field"
+          );
+
+          if (name !== fieldName || files.length >= maxFiles) {
+            log.debug({ field: name }, `Skipping non-${fieldName} field`);
+            file.resume(); // Skip other fields
+            return;
+          }
+
+          // The extension is passed on to ffmpeg, so only allowed ones are
+          // kept; ffmpeg detects the real format from the content
+          const filename = info.filename;
+          const ext = safeExtension(filename);
+          const suffix = files.length > 0 ? `-${files.length}` : "";
+          const tempFile = join(
+            tempDir,
+            `transcribe-${uniqueId}${suffix}.${ext}`
+          );
+          files.push({ filePath: tempFile, filename });
+          pendingWrites++;
+
+          log.info(
+            { tempFilePath: tempFile, filename },
+            "Streaming upload to temporary file"
+          );
+          const writeStream = createWriteStream(tempFile);
+
+          file.pipe(writeStream);
+
+          // Busboy stops writing at the limit; give up on the whole request
+          file.on("limit", () => {
+            log.warn(
+              { filename, maxBytes },
+              "Upload exceeds the size limit, aborting"
+            );
+            nodeStream?.unpipe(bb);
+            nodeStream?.destroy();
+            reject(
+              new PayloadTooLargeError(
+                `File exceeds the ${formatMegabytes(maxBytes)}MB upload limit`
+              )
+            );
+          });
+
+          writeStream.on("finish", () => {
+            log.info({ tempFilePath: tempFile }, "File write completed");
+            pendingWrites--;
+            tryResolve();
+          });
+
+          writeStream.on("error", (err: Error) => {
+            log.error(
+              { error: err.message, stack: err.stack },
+              "File write error"
+            );
+            reject(err);
+          });
+        });
+
+        bb.on("field", (name, value) => {
+          fields[name] = value;
+          log.debug(
+            { field: name, valueLength: value.length },
+            "Received form field"
+          );
+        });
+
+        bb.on("error", (err: Error) => {
+          log.error({ error: err.message }, "Busboy error");
+          reject(
+            new ValidationError(`Malformed multipart body: ${err.message}`)
+          );
+        });
+
+        bb.on("finish", () => {
+          log.debug("Busboy parsing finished");
+          busboyFinished = true;
+          if (files.length === 0) {
+            reject(
+              new ValidationError(`No ${fieldName} file found in request`)
+            );
+          } else {
+            tryResolve();
+          }
+        });
+
+        if (c.req.raw.body) {
+          // @ts-ignore
+          nodeStream = Readable.fromWeb(c.req.raw.body);
+          nodeStream.pipe(bb);
+        } else {
+          reject(new ValidationError("Request body is empty"));
+        }
+      } catch (err) {
+        log.error(
+          { error: err instanceof Error ? err.message : "Unknown error" },
+          "Upload promise error"
+        );
+        reject(err);
+      }
+    });
+  } catch (error) {
+    // Remove whatever was written before the upload failed
+    await Promise.all(
+      files.map((file) => unlink(file.filePath).catch(() => {}))
+    );
+    throw error;
+  }
+}
+
+function formatMegabytes(bytes: number): number {
+  return Math.round((bytes / (1024 * 1024)) * 10) / 10;
+}